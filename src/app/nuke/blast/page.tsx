@@ -3,7 +3,23 @@
 import { useEffect, useState, Suspense } from 'react';
 import { useSearchParams } from 'next/navigation';
 import dynamic from 'next/dynamic';
-import { getWeaponById } from '@/data/nuclearWeapons';
+import {
+  getWeaponById,
+  createCustomWeapon,
+  parseHeightOfBurst,
+  parseWeaponDesign,
+  parseWeaponDesignOverrides,
+  applyWeaponDesignToBlastEffects,
+  calculateGroundCoupling,
+  getWeaponHeightOfBurst,
+  CUSTOM_WEAPON_ID,
+} from '@/data/nuclearWeapons';
+import { applyBurialToBlastEffects, applyCrateringToBlastEffects, parseSoilType } from '@/data/cratering';
+import { WeatherConditions, parseWeatherParams, applyWeatherToBlastEffects } from '@/data/weatherConditions';
+import { ScenarioTime, parseScenarioTimeParams } from '@/data/scenarioTime';
+import { ShelterScenario, parseShelterParams } from '@/data/shelterPosture';
+import { Demographics, parseDemographicsParams } from '@/data/demographics';
+import { parsePopulationSeed } from '@/data/populationDataSources';
 import 'leaflet/dist/leaflet.css';
 
 const MapComponent = dynamic(() => import('@/components/BlastMap'), {
@@ -21,6 +37,11 @@ function BlastPageContent() {
     cityName: string;
     weaponId?: string;
     weaponData?: ReturnType<typeof getWeaponById>;
+    weather: WeatherConditions;
+    scenarioTime: ScenarioTime;
+    shelter: ShelterScenario;
+    demographics: Demographics;
+    populationSeed?: number;
   } | null>(null);
 
   useEffect(() => {
@@ -32,11 +53,59 @@ function BlastPageContent() {
     const weaponId = searchParams.get('weaponId') || undefined;
     
     let weaponData = undefined;
-    if (weaponId) {
+    if (weaponId === CUSTOM_WEAPON_ID) {
+      // Custom devices carry their yield, height of burst and design in the URL, with the
+      // design's fission share and neutron/gamma ratio when they were overridden
+      const yieldKt = parseFloat(searchParams.get('yield') || '');
+      const hob = parseHeightOfBurst(searchParams.get('hob'));
+      const design = parseWeaponDesign(searchParams.get('design'));
+      const overrides = parseWeaponDesignOverrides(searchParams.get('fission'), searchParams.get('ng'));
+      if (!isNaN(yieldKt)) {
+        weaponData = createCustomWeapon(yieldKt, hob, design, overrides);
+      }
+    } else if (weaponId) {
       weaponData = getWeaponById(weaponId);
     }
 
-    setMapData({ lat, lng, radius, bombName, cityName, weaponId, weaponData });
+    // Prompt radiation radii assume a fission/thermonuclear neutron output
+    if (weaponData) {
+      weaponData = { ...weaponData, blastEffects: applyWeaponDesignToBlastEffects(weaponData.blastEffects, weaponData) };
+    }
+
+    // Thermal radii in the catalog and scaling model assume clear conditions
+    const weather = parseWeatherParams(searchParams);
+    if (weaponData) {
+      weaponData = { ...weaponData, blastEffects: applyWeatherToBlastEffects(weaponData.blastEffects, weather) };
+    }
+
+    // Surface and buried bursts leave a crater; catalog ground bursts assume dry soil
+    // Buried bursts keep only the share of their surface effects that vents, none when contained
+    if (weaponData) {
+      const soil = parseSoilType(searchParams.get('soil'));
+      const depthOfBurst = Math.max(0, parseFloat(searchParams.get('dob') || '0') || 0);
+      const groundCoupling = calculateGroundCoupling(weaponData.yield, getWeaponHeightOfBurst(weaponData));
+      const cratered = applyCrateringToBlastEffects(
+        weaponData.blastEffects,
+        weaponData.yield,
+        soil,
+        depthOfBurst,
+        groundCoupling
+      );
+      weaponData = {
+        ...weaponData,
+        blastEffects: applyBurialToBlastEffects(cratered, weaponData.yield, depthOfBurst),
+        burstInfo: depthOfBurst > 0 ? { typical: 'groundburst' as const, depth: depthOfBurst } : weaponData.burstInfo,
+      };
+    }
+
+    const scenarioTime = parseScenarioTimeParams(searchParams);
+    const shelter = parseShelterParams(searchParams);
+    const demographics = parseDemographicsParams(searchParams);
+    const populationSeed = parsePopulationSeed(searchParams.get('seed'));
+
+    setMapData({
+      lat, lng, radius, bombName, cityName, weaponId, weaponData, weather, scenarioTime, shelter, demographics, populationSeed,
+    });
   }, [searchParams]);
 
   if (!mapData) {
@@ -1,7 +1,58 @@
 'use client';
 
 import { useState, FormEvent, useEffect, useRef } from 'react';
-import { nuclearWeapons, NuclearWeapon, modelAssumptions } from '@/data/nuclearWeapons';
+import {
+  nuclearWeapons,
+  NuclearWeapon,
+  HeightOfBurst,
+  modelAssumptions,
+  createCustomWeapon,
+  formatYield,
+  getWeaponDesignParameters,
+  applyWeaponDesignToBlastEffects,
+  parseWeaponDesignOverrides,
+  WeaponDesign,
+  WeaponDesignOverrides,
+  WEAPON_DESIGNS,
+  MAX_NEUTRON_GAMMA_RATIO,
+  CUSTOM_YIELD_MIN_KT,
+  CUSTOM_YIELD_MAX_KT,
+} from '@/data/nuclearWeapons';
+import { findOptimumBurstHeight, hobPresets } from '@/data/heightOfBurst';
+import { hempAltitudePresets } from '@/data/empModel';
+import { SoilType, SOIL_TYPES, applyBurialToBlastEffects } from '@/data/cratering';
+import {
+  WeatherConditions,
+  DEFAULT_WEATHER,
+  VISIBILITY_PRESETS,
+  describeWeatherConditions,
+  weatherToParams,
+} from '@/data/weatherConditions';
+import {
+  ScenarioTime,
+  DEFAULT_SCENARIO_TIME,
+  dayTypeForDate,
+  describeScenarioTime,
+  scenarioTimeToParams,
+} from '@/data/scenarioTime';
+import {
+  ShelterScenario,
+  DEFAULT_SHELTER_SCENARIO,
+  SHELTER_POSTURES,
+  SHELTER_POSTURE_ORDER,
+  describeShelterScenario,
+  shelterScenarioToParams,
+} from '@/data/shelterPosture';
+import {
+  Demographics,
+  AGE_BRACKETS,
+  AGE_BRACKET_LABELS,
+  DEFAULT_DEMOGRAPHICS,
+  defaultDemographics,
+  normalizeAgeStructure,
+  demographicsToParams,
+} from '@/data/demographics';
+import { parsePopulationSeed } from '@/data/populationDataSources';
 
 interface CitySuggestion {
   display_name: string;
@@ -45,6 +96,24 @@ export default function Home() {
   const [cityName, setCityName] = useState('');
   const [selectedWeaponId, setSelectedWeaponId] = useState<string>(nuclearWeapons[0].id);
   const [selectedCategory, setSelectedCategory] = useState<'all' | NuclearWeapon['category']>('all');
+  const [weaponMode, setWeaponMode] = useState<'catalog' | 'custom'>('catalog');
+  const [customYield, setCustomYield] = useState('100');
+  const [customYieldUnit, setCustomYieldUnit] = useState<'kt' | 'Mt'>('kt');
+  const [customBurst, setCustomBurst] = useState<'airburst' | 'surface' | 'subsurface' | 'height'>('airburst');
+  const [customHeight, setCustomHeight] = useState('500');
+  const [customDepth, setCustomDepth] = useState('10');
+  const [customSoil, setCustomSoil] = useState<SoilType>('dry-soil');
+  const [customDesign, setCustomDesign] = useState<WeaponDesign>('thermonuclear');
+  // Blank to use the design's value
+  const [customFissionPercent, setCustomFissionPercent] = useState('');
+  const [customNeutronGamma, setCustomNeutronGamma] = useState('');
+  const [weather, setWeather] = useState<WeatherConditions>(DEFAULT_WEATHER);
+  const [scenarioTime, setScenarioTime] = useState<ScenarioTime>(DEFAULT_SCENARIO_TIME);
+  const [shelter, setShelter] = useState<ShelterScenario>(DEFAULT_SHELTER_SCENARIO);
+  // Seed for synthetic population as typed, blank to derive it from the location
+  const [populationSeed, setPopulationSeed] = useState('');
+  // Percentages as typed for a custom age structure, null for the country default
+  const [customAges, setCustomAges] = useState<string[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [suggestions, setSuggestions] = useState<CitySuggestion[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -146,6 +215,33 @@ export default function Home() {
     inputRef.current?.focus();
   };
 
+  // Custom yield in kilotons, or null if the input is out of range
+  const getCustomYieldKt = (): number | null => {
+    const value = parseFloat(customYield);
+    if (isNaN(value)) return null;
+    const yieldKt = customYieldUnit === 'Mt' ? value * 1000 : value;
+    if (yieldKt < CUSTOM_YIELD_MIN_KT || yieldKt > CUSTOM_YIELD_MAX_KT) return null;
+    return yieldKt;
+  };
+
+  // Fission share and neutron/gamma ratio typed for the custom device, out of range values are dropped
+  const getCustomDesignOverrides = (): WeaponDesignOverrides => {
+    const fissionPercent = parseFloat(customFissionPercent);
+    return parseWeaponDesignOverrides(
+      isNaN(fissionPercent) ? null : String(fissionPercent / 100),
+      customNeutronGamma
+    );
+  };
+
+  // Height of burst for the custom device
+  const getCustomHob = (): HeightOfBurst => {
+    // Buried bursts are modelled as surface bursts above ground, with a deeper crater
+    if (customBurst === 'subsurface') return 'surface';
+    if (customBurst !== 'height') return customBurst;
+    const height = parseFloat(customHeight);
+    return isNaN(height) ? 0 : Math.max(0, height);
+  };
+
   // Close suggestions when clicking outside
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
@@ -163,18 +259,26 @@ export default function Home() {
     e.preventDefault();
     if (!cityName) return;
 
+    const customYieldKt = getCustomYieldKt();
+    if (weaponMode === 'custom' && customYieldKt === null) {
+      alert(`Enter a yield between ${formatYield(CUSTOM_YIELD_MIN_KT)} and ${formatYield(CUSTOM_YIELD_MAX_KT)}.`);
+      return;
+    }
+
     setLoading(true);
     
     try {
       // Geocode the city name using Nominatim (free alternative to Google)
       const geocodeResponse = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(cityName)}`
+        `https://nominatim.openstreetmap.org/search?format=json&addressdetails=1&q=${encodeURIComponent(cityName)}`
       );
       const geocodeData = await geocodeResponse.json();
       
       if (geocodeData && geocodeData.length > 0) {
         const location = geocodeData[0];
-        const weapon = nuclearWeapons.find(w => w.id === selectedWeaponId);
+        const weapon = weaponMode === 'custom' && customYieldKt !== null
+          ? createCustomWeapon(customYieldKt, getCustomHob(), customDesign, getCustomDesignOverrides())
+          : nuclearWeapons.find(w => w.id === selectedWeaponId);
         
         if (weapon) {
           // Use accurate fireball radius from weapon data
@@ -190,6 +294,47 @@ export default function Home() {
             city: cityName,
           });
           
+          // Weather adjusts the thermal radii on the blast page
+          Object.entries(weatherToParams(weather)).forEach(([key, value]) => params.set(key, value));
+          
+          // Scenario time decides whether people are at home or at work
+          Object.entries(scenarioTimeToParams(scenarioTime)).forEach(([key, value]) => params.set(key, value));
+          
+          // A fixed seed reproduces the synthetic population where no real data is available
+          const seed = parsePopulationSeed(populationSeed);
+          if (seed !== undefined) {
+            params.set('seed', seed.toString());
+          }
+          
+          // Warning time and shelter posture set how exposed people are
+          Object.entries(shelterScenarioToParams(shelter)).forEach(([key, value]) => params.set(key, value));
+          
+          // Age structure defaults to the country of the geocoded city; custom shares are scaled to sum to 100%
+          const demographics: Demographics = customAges
+            ? { ageStructure: normalizeAgeStructure(customAges.map(value => parseFloat(value))), source: 'custom' }
+            : defaultDemographics();
+          Object.entries(demographicsToParams({ ...demographics, country: location.address?.country_code }))
+            .forEach(([key, value]) => params.set(key, value));
+          
+          // Custom devices are rebuilt from yield and burst type on the blast page
+          if (weapon.category === 'custom') {
+            params.set('yield', weapon.yield.toString());
+            params.set('hob', getCustomHob().toString());
+            params.set('design', customDesign);
+            if (weapon.fissionFraction !== undefined) {
+              params.set('fission', weapon.fissionFraction.toString());
+            }
+            if (weapon.neutronGammaRatio !== undefined) {
+              params.set('ng', weapon.neutronGammaRatio.toString());
+            }
+            if (customBurst === 'surface' || customBurst === 'subsurface') {
+              params.set('soil', customSoil);
+            }
+            if (customBurst === 'subsurface') {
+              params.set('dob', (parseFloat(customDepth) || 0).toString());
+            }
+          }
+          
           // Navigate to the blast visualization page
           window.location.href = `/nuke/blast?${params.toString()}`;
         }
@@ -257,64 +402,485 @@ export default function Home() {
             )}
           </div>
           
-          <div>
-            <label htmlFor="category" className="block text-sm font-medium mb-2">
-              Weapon Category
-            </label>
-            <select
-              id="category"
-              value={selectedCategory}
-              onChange={(e) => {
-                const category = e.target.value as typeof selectedCategory;
-                setSelectedCategory(category);
-                // Reset to first weapon in category when category changes
-                const weaponsInCategory = category === 'all' 
-                  ? nuclearWeapons 
-                  : nuclearWeapons.filter(w => w.category === category);
-                if (weaponsInCategory.length > 0) {
-                  setSelectedWeaponId(weaponsInCategory[0].id);
-                }
-              }}
-              className="w-full px-3 py-2 sm:px-4 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent text-base mb-4"
+          <div className="flex gap-1 bg-gray-800 border border-gray-700 rounded-md p-1">
+            <button
+              type="button"
+              onClick={() => setWeaponMode('catalog')}
+              className={`flex-1 px-3 py-1.5 text-sm rounded transition-colors ${
+                weaponMode === 'catalog' ? 'bg-red-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+              }`}
             >
-              <option value="all">All Weapons</option>
-              <option value="historical">Historical</option>
-              <option value="tactical">Tactical</option>
-              <option value="strategic">Strategic</option>
-              <option value="test">Test Weapons</option>
-            </select>
-
-            <label htmlFor="weapon" className="block text-sm font-medium mb-2">
-              Nuclear Weapon
-            </label>
-            <select
-              id="weapon"
-              value={selectedWeaponId}
-              onChange={(e) => setSelectedWeaponId(e.target.value)}
-              className="w-full px-3 py-2 sm:px-4 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent text-base"
+              Weapon Catalog
+            </button>
+            <button
+              type="button"
+              onClick={() => setWeaponMode('custom')}
+              className={`flex-1 px-3 py-1.5 text-sm rounded transition-colors ${
+                weaponMode === 'custom' ? 'bg-red-600 text-white' : 'text-gray-300 hover:bg-gray-700'
+              }`}
             >
-              {(selectedCategory === 'all' ? nuclearWeapons : nuclearWeapons.filter(w => w.category === selectedCategory)).map((weapon) => (
-                <option key={weapon.id} value={weapon.id}>
-                  {weapon.name} ({weapon.country}) - {weapon.yield >= 1000 
-                    ? `${(weapon.yield / 1000).toFixed(1)} Mt` 
-                    : `${weapon.yield} kt`}
-                </option>
-              ))}
-            </select>
-            
-            {/* Display weapon info */}
-            {selectedWeaponId && (() => {
-              const weapon = nuclearWeapons.find(w => w.id === selectedWeaponId);
-              return weapon ? (
-                <div className="mt-2 p-3 bg-gray-900 rounded text-sm">
-                  <p className="text-gray-300">{weapon.description}</p>
-                  {weapon.year && (
-                    <p className="text-gray-400 text-xs mt-1">Deployed: {weapon.year}</p>
+              Custom Device
+            </button>
+          </div>
+          
+          {weaponMode === 'custom' ? (
+            <div>
+              <label htmlFor="customYield" className="block text-sm font-medium mb-2">
+                Yield
+              </label>
+              <div className="flex gap-2 mb-4">
+                <input
+                  type="number"
+                  id="customYield"
+                  value={customYield}
+                  onChange={(e) => setCustomYield(e.target.value)}
+                  min={customYieldUnit === 'Mt' ? CUSTOM_YIELD_MIN_KT / 1000 : CUSTOM_YIELD_MIN_KT}
+                  max={customYieldUnit === 'Mt' ? CUSTOM_YIELD_MAX_KT / 1000 : CUSTOM_YIELD_MAX_KT}
+                  step="any"
+                  className="flex-1 px-3 py-2 sm:px-4 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent text-base"
+                  required
+                />
+                <select
+                  value={customYieldUnit}
+                  onChange={(e) => setCustomYieldUnit(e.target.value as 'kt' | 'Mt')}
+                  className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent text-base"
+                  aria-label="Yield unit"
+                >
+                  <option value="kt">kt</option>
+                  <option value="Mt">Mt</option>
+                </select>
+              </div>
+
+              <label htmlFor="customDesign" className="block text-sm font-medium mb-2">
+                Design
+              </label>
+              <select
+                id="customDesign"
+                value={customDesign}
+                onChange={(e) => setCustomDesign(e.target.value as WeaponDesign)}
+                className="w-full px-3 py-2 sm:px-4 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent text-base mb-4"
+              >
+                {(Object.keys(WEAPON_DESIGNS) as WeaponDesign[]).map(design => (
+                  <option key={design} value={design}>
+                    {WEAPON_DESIGNS[design].label}
+                  </option>
+                ))}
+              </select>
+              <div className="-mt-2 mb-4 grid grid-cols-2 gap-2">
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-400">Fission share (%)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="any"
+                    value={customFissionPercent}
+                    placeholder={(WEAPON_DESIGNS[customDesign].fissionFraction * 100).toFixed(0)}
+                    onChange={(e) => setCustomFissionPercent(e.target.value)}
+                    className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-base"
+                  />
+                </label>
+                <label className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-400">Neutron/gamma dose ratio</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_NEUTRON_GAMMA_RATIO}
+                    step="any"
+                    value={customNeutronGamma}
+                    placeholder={WEAPON_DESIGNS[customDesign].neutronGammaRatio.toString()}
+                    onChange={(e) => setCustomNeutronGamma(e.target.value)}
+                    className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-base"
+                  />
+                </label>
+              </div>
+
+              <label htmlFor="customBurst" className="block text-sm font-medium mb-2">
+                Burst Type
+              </label>
+              <select
+                id="customBurst"
+                value={customBurst}
+                onChange={(e) => setCustomBurst(e.target.value as typeof customBurst)}
+                className="w-full px-3 py-2 sm:px-4 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent text-base"
+              >
+                <option value="airburst">Airburst (optimized height)</option>
+                <option value="surface">Surface burst</option>
+                <option value="subsurface">Subsurface (buried) burst</option>
+                <option value="height">Specific burst height</option>
+              </select>
+              
+              {(customBurst === 'surface' || customBurst === 'subsurface') && (
+                <div className="mt-2 grid grid-cols-2 gap-2">
+                  <label className="flex flex-col gap-1">
+                    <span className="text-xs text-gray-400">Ground type</span>
+                    <select
+                      value={customSoil}
+                      onChange={(e) => setCustomSoil(e.target.value as SoilType)}
+                      className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-base"
+                    >
+                      {SOIL_TYPES.map(soil => (
+                        <option key={soil.id} value={soil.id}>{soil.label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  {customBurst === 'subsurface' && (
+                    <label className="flex flex-col gap-1">
+                      <span className="text-xs text-gray-400">Depth of burst (m)</span>
+                      <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={customDepth}
+                        onChange={(e) => setCustomDepth(e.target.value)}
+                        className="px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-base"
+                      />
+                    </label>
                   )}
                 </div>
-              ) : null;
-            })()}
-          </div>
+              )}
+              
+              {customBurst === 'height' && (
+                <div className="mt-2">
+                  <label htmlFor="customHeight" className="block text-xs text-gray-400 mb-1">
+                    Burst height (meters)
+                  </label>
+                  <input
+                    type="number"
+                    id="customHeight"
+                    value={customHeight}
+                    onChange={(e) => setCustomHeight(e.target.value)}
+                    min={0}
+                    step="any"
+                    className="w-full px-3 py-2 sm:px-4 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent text-base"
+                  />
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {hobPresets.map(preset => (
+                      <button
+                        key={preset.level}
+                        type="button"
+                        disabled={getCustomYieldKt() === null}
+                        onClick={() => {
+                          const yieldKt = getCustomYieldKt();
+                          if (yieldKt !== null) {
+                            setCustomHeight(findOptimumBurstHeight(yieldKt, preset.psi).toString());
+                          }
+                        }}
+                        className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 disabled:opacity-50 rounded transition-colors"
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                    {hempAltitudePresets.map(preset => (
+                      <button
+                        key={preset.altitudeKm}
+                        type="button"
+                        onClick={() => setCustomHeight((preset.altitudeKm * 1000).toString())}
+                        className="px-2 py-1 text-xs bg-gray-700 hover:bg-gray-600 rounded transition-colors"
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            
+              {/* Display computed effects for the custom device */}
+              {(() => {
+                const yieldKt = getCustomYieldKt();
+                if (yieldKt === null) {
+                  return (
+                    <p className="mt-2 text-xs text-red-400">
+                      Yield must be between {formatYield(CUSTOM_YIELD_MIN_KT)} and {formatYield(CUSTOM_YIELD_MAX_KT)}
+                    </p>
+                  );
+                }
+                const weapon = createCustomWeapon(yieldKt, getCustomHob(), customDesign, getCustomDesignOverrides());
+                const depthOfBurst = customBurst === 'subsurface' ? parseFloat(customDepth) || 0 : 0;
+                const effects = applyBurialToBlastEffects(
+                  applyWeaponDesignToBlastEffects(weapon.blastEffects, weapon),
+                  yieldKt,
+                  depthOfBurst
+                );
+                const { fissionFraction, neutronGammaRatio } = getWeaponDesignParameters(weapon);
+                return (
+                  <div className="mt-2 p-3 bg-gray-900 rounded text-sm">
+                    <p className="text-gray-300">{weapon.description}</p>
+                    <p className="text-gray-400 text-xs mt-1">
+                      Fission: {(fissionFraction * 100).toFixed(0)}% • n/γ: {neutronGammaRatio}
+                    </p>
+                    <p className="text-gray-400 text-xs mt-1">
+                      Fireball: {(effects.fireball / 1000).toFixed(2)} km • 5 psi: {effects.overpressure.psi5.toFixed(2)} km • 3rd degree burns: {effects.thermal.thirdDegree.toFixed(2)} km • 500 rem: {effects.radiation.rem500.toFixed(2)} km
+                    </p>
+                  </div>
+                );
+              })()}
+            </div>
+          ) : (
+            <div>
+              <label htmlFor="category" className="block text-sm font-medium mb-2">
+                Weapon Category
+              </label>
+              <select
+                id="category"
+                value={selectedCategory}
+                onChange={(e) => {
+                  const category = e.target.value as typeof selectedCategory;
+                  setSelectedCategory(category);
+                  // Reset to first weapon in category when category changes
+                  const weaponsInCategory = category === 'all' 
+                    ? nuclearWeapons 
+                    : nuclearWeapons.filter(w => w.category === category);
+                  if (weaponsInCategory.length > 0) {
+                    setSelectedWeaponId(weaponsInCategory[0].id);
+                  }
+                }}
+                className="w-full px-3 py-2 sm:px-4 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent text-base mb-4"
+              >
+                <option value="all">All Weapons</option>
+                <option value="historical">Historical</option>
+                <option value="tactical">Tactical</option>
+                <option value="strategic">Strategic</option>
+                <option value="test">Test Weapons</option>
+              </select>
+
+              <label htmlFor="weapon" className="block text-sm font-medium mb-2">
+                Nuclear Weapon
+              </label>
+              <select
+                id="weapon"
+                value={selectedWeaponId}
+                onChange={(e) => setSelectedWeaponId(e.target.value)}
+                className="w-full px-3 py-2 sm:px-4 bg-gray-800 border border-gray-700 rounded-md focus:ring-2 focus:ring-red-500 focus:border-transparent text-base"
+              >
+                {(selectedCategory === 'all' ? nuclearWeapons : nuclearWeapons.filter(w => w.category === selectedCategory)).map((weapon) => (
+                  <option key={weapon.id} value={weapon.id}>
+                    {weapon.name} ({weapon.country}) - {formatYield(weapon.yield)}
+                  </option>
+                ))}
+              </select>
+            
+              {/* Display weapon info */}
+              {selectedWeaponId && (() => {
+                const weapon = nuclearWeapons.find(w => w.id === selectedWeaponId);
+                return weapon ? (
+                  <div className="mt-2 p-3 bg-gray-900 rounded text-sm">
+                    <p className="text-gray-300">{weapon.description}</p>
+                    {weapon.year && (
+                      <p className="text-gray-400 text-xs mt-1">Deployed: {weapon.year}</p>
+                    )}
+                    {weapon.design && (
+                      <p className="text-gray-400 text-xs mt-1">
+                        Design: {WEAPON_DESIGNS[weapon.design].label} • Fission: {(getWeaponDesignParameters(weapon).fissionFraction * 100).toFixed(0)}% • n/γ: {getWeaponDesignParameters(weapon).neutronGammaRatio}
+                      </p>
+                    )}
+                  </div>
+                ) : null;
+              })()}
+            </div>
+          )}
+          
+          <details className="bg-gray-800 border border-gray-700 rounded-md">
+            <summary className="px-3 py-2 sm:px-4 text-sm font-medium cursor-pointer">
+              Weather Conditions
+            </summary>
+            <div className="px-3 pb-3 sm:px-4 grid grid-cols-2 gap-3 text-sm">
+              <label className="flex flex-col gap-1 col-span-2">
+                <span className="text-xs text-gray-400">Visibility</span>
+                <select
+                  value={weather.visibilityKm}
+                  onChange={(e) => setWeather({ ...weather, visibilityKm: parseFloat(e.target.value) })}
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                >
+                  {VISIBILITY_PRESETS.map(preset => (
+                    <option key={preset.visibilityKm} value={preset.visibilityKm}>
+                      {preset.label} ({preset.visibilityKm} km)
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-400">Cloud layer</span>
+                <select
+                  value={weather.cloudLayer}
+                  onChange={(e) => setWeather({ ...weather, cloudLayer: e.target.value as WeatherConditions['cloudLayer'] })}
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                >
+                  <option value="none">None</option>
+                  <option value="above">Above burst</option>
+                  <option value="below">Below burst</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-400">Relative humidity (%)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={weather.relativeHumidity}
+                  onChange={(e) => setWeather({
+                    ...weather,
+                    relativeHumidity: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)),
+                  })}
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                />
+              </label>
+              <label className="flex items-center gap-2 col-span-2 text-xs text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={weather.snowCover}
+                  onChange={(e) => setWeather({ ...weather, snowCover: e.target.checked })}
+                />
+                Snow cover on the ground
+              </label>
+            </div>
+          </details>
+          
+          <details className="bg-gray-800 border border-gray-700 rounded-md">
+            <summary className="px-3 py-2 sm:px-4 text-sm font-medium cursor-pointer">
+              Scenario Time
+            </summary>
+            <div className="px-3 pb-3 sm:px-4 grid grid-cols-2 gap-3 text-sm">
+              <label className="flex flex-col gap-1 col-span-2">
+                <span className="text-xs text-gray-400">Date (optional, sets the day type)</span>
+                <input
+                  type="date"
+                  value={scenarioTime.date}
+                  onChange={(e) => setScenarioTime({
+                    ...scenarioTime,
+                    date: e.target.value,
+                    dayType: dayTypeForDate(e.target.value) ?? scenarioTime.dayType,
+                  })}
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-400">Hour</span>
+                <select
+                  value={scenarioTime.hour}
+                  onChange={(e) => setScenarioTime({ ...scenarioTime, hour: parseInt(e.target.value, 10) })}
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                >
+                  {Array.from({ length: 24 }, (_, hour) => (
+                    <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-xs text-gray-400">Day type</span>
+                <select
+                  value={scenarioTime.dayType}
+                  onChange={(e) => setScenarioTime({ ...scenarioTime, dayType: e.target.value as ScenarioTime['dayType'] })}
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                >
+                  <option value="weekday">Weekday</option>
+                  <option value="weekend">Weekend / holiday</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 col-span-2">
+                <span className="text-xs text-gray-400">Synthetic population seed (blank to derive from the location)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={0xFFFFFFFF}
+                  step={1}
+                  value={populationSeed}
+                  onChange={(e) => setPopulationSeed(e.target.value)}
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                />
+              </label>
+            </div>
+          </details>
+          
+          <details className="bg-gray-800 border border-gray-700 rounded-md">
+            <summary className="px-3 py-2 sm:px-4 text-sm font-medium cursor-pointer">
+              Shelter &amp; Warning
+            </summary>
+            <div className="px-3 pb-3 sm:px-4 grid grid-cols-2 gap-3 text-sm">
+              <label className="flex flex-col gap-1 col-span-2">
+                <span className="text-xs text-gray-400">Warning time (minutes, 0 for a surprise attack)</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={shelter.warningMinutes}
+                  onChange={(e) => setShelter({
+                    ...shelter,
+                    warningMinutes: Math.max(0, parseFloat(e.target.value) || 0),
+                  })}
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                />
+              </label>
+              {SHELTER_POSTURE_ORDER.map(posture => (
+                <label key={posture} className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-400">{SHELTER_POSTURES[posture].label} (%)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={Math.round(shelter.fractions[posture] * 100)}
+                    onChange={(e) => setShelter({
+                      ...shelter,
+                      fractions: {
+                        ...shelter.fractions,
+                        [posture]: Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)) / 100,
+                      },
+                    })}
+                    className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                  />
+                </label>
+              ))}
+              <p className="col-span-2 text-xs text-gray-500">
+                Where people go once warned; shares are rescaled to 100%. Those who have not yet
+                responded when the weapon detonates are caught where they were.
+              </p>
+            </div>
+          </details>
+          
+          <details className="bg-gray-800 border border-gray-700 rounded-md">
+            <summary className="px-3 py-2 sm:px-4 text-sm font-medium cursor-pointer">
+              Demographics
+            </summary>
+            <div className="px-3 pb-3 sm:px-4 grid grid-cols-2 gap-3 text-sm">
+              <label className="flex flex-col gap-1 col-span-2">
+                <span className="text-xs text-gray-400">Age structure</span>
+                <select
+                  value={customAges ? 'custom' : 'country'}
+                  onChange={(e) => setCustomAges(e.target.value === 'custom'
+                    ? AGE_BRACKETS.map(bracket => (Math.round(DEFAULT_DEMOGRAPHICS.ageStructure[bracket] * 1000) / 10).toString())
+                    : null)}
+                  className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                >
+                  <option value="country">Default for the city&apos;s country</option>
+                  <option value="custom">Custom</option>
+                </select>
+              </label>
+              {customAges && AGE_BRACKETS.map((bracket, i) => (
+                <label key={bracket} className="flex flex-col gap-1">
+                  <span className="text-xs text-gray-400">{AGE_BRACKET_LABELS[bracket]} (%)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={customAges[i]}
+                    onChange={(e) => setCustomAges(customAges.map((value, j) => j === i ? e.target.value : value))}
+                    className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-md"
+                  />
+                </label>
+              ))}
+              {customAges && (() => {
+                const total = customAges.reduce((sum, value) => sum + Math.max(0, parseFloat(value) || 0), 0);
+                return (
+                  <p className={`col-span-2 text-xs ${Math.abs(total - 100) < 0.5 ? 'text-gray-400' : 'text-yellow-400'}`}>
+                    Total: {Math.round(total * 10) / 10}%
+                    {Math.abs(total - 100) < 0.5 ? '' : ' (shares will be scaled to sum to 100%)'}
+                  </p>
+                );
+              })()}
+              <p className="col-span-2 text-xs text-gray-500">
+                Children and the elderly are more vulnerable to burns, blast and radiation.
+              </p>
+            </div>
+          </details>
           
           <button
             type="submit"
@@ -332,7 +898,12 @@ export default function Home() {
           </p>
           <ul className="text-xs text-gray-400 space-y-1 list-disc list-inside">
             <li>Assumes {modelAssumptions.heightOfBurst}</li>
-            <li>Based on {modelAssumptions.conditions}</li>
+            {weaponMode === 'custom' && customBurst === 'subsurface' && (
+              <li>{modelAssumptions.subsurface}</li>
+            )}
+            <li>Based on {describeWeatherConditions(weather)}</li>
+            <li>Population distributed for {describeScenarioTime(scenarioTime)}</li>
+            <li>Shelter: {describeShelterScenario(shelter)}</li>
             <li>Assumes {modelAssumptions.terrain}</li>
             <li>Effects shown for {modelAssumptions.population}</li>
           </ul>
@@ -1,11 +1,69 @@
 'use client';
 
 import { useState, useMemo, useRef, useEffect } from 'react';
-import { MapContainer, TileLayer, Circle, Marker, Popup, useMapEvents, Tooltip, useMap } from 'react-leaflet';
+import { MapContainer, TileLayer, Circle, CircleMarker, Polygon, ImageOverlay, Marker, Popup, useMapEvents, Tooltip, useMap } from 'react-leaflet';
 import L from 'leaflet';
-import { NuclearWeapon } from '@/data/nuclearWeapons';
-import { estimatePopulationDensity, calculateCasualties, CasualtyData, formatCasualties } from '@/data/populationCalculations';
+import {
+  NuclearWeapon,
+  formatYield,
+  calculateGroundCoupling,
+  getWeaponHeightOfBurst,
+  getBurstHeightMeters,
+  calculateFalloutDoseAtPoint,
+  DEFAULT_FISSION_FRACTION,
+  WEAPON_DESIGNS,
+  getWeaponDesignParameters,
+  FALLOUT_PROTECTION_FACTORS,
+  effectDescriptions,
+} from '@/data/nuclearWeapons';
+import { calculateFalloutContours, FalloutParameters, DEFAULT_WIND } from '@/data/falloutModel';
+import {
+  PopulationGrid,
+  haversineDistance,
+  polygonArea,
+  populationInCircle,
+  populationInPolygon,
+} from '@/data/populationDataSources';
+import { effectsAtRangeFromBlastEffects } from '@/data/effectsAtRange';
+import { WeatherConditions, describeWeatherConditions } from '@/data/weatherConditions';
+import { ScenarioTime, DEFAULT_SCENARIO_TIME, describeScenarioTime } from '@/data/scenarioTime';
+import { ShelterScenario, DEFAULT_SHELTER_SCENARIO, describeShelterScenario } from '@/data/shelterPosture';
+import { Demographics, DEFAULT_DEMOGRAPHICS, describeDemographics } from '@/data/demographics';
+import { calculateEmpEffects } from '@/data/empModel';
+import { ventedFraction } from '@/data/cratering';
+import { FireEffects } from '@/data/fireModel';
+import { BuildingDamage, buildingDamageAt, DAMAGE_STATES, DAMAGE_STATE_INFO } from '@/data/buildingDamage';
+import {
+  Hospital,
+  HospitalStatus,
+  MedicalCapacity,
+  HOSPITAL_STATUS_INFO,
+  fetchHospitals,
+  hospitalSearchRadiusKm,
+  assessMedicalCapacity,
+} from '@/data/medicalCapacity';
+import {
+  estimatePopulationDensity,
+  CasualtyData,
+  PopulationData,
+  formatCasualties,
+} from '@/data/populationCalculations';
+import {
+  calculateCasualtiesInWorker,
+  calculateFireEffectsInWorker,
+  calculateBuildingDamageInWorker,
+  calculateBuildingLossInWorker,
+  calculateLongTermHealthInWorker,
+} from '@/workers/gridAnalysisClient';
+import { LongTermHealth, BEIR_VII_COEFFICIENTS } from '@/data/longTermHealth';
+import {
+  BuildingLoss,
+  InfrastructureAsset,
+  fetchInfrastructure,
+  assessInfrastructure,
+} from '@/data/economicLoss';
 import CasualtyEstimates from '@/components/CasualtyEstimates';
+import EconomicLossPanel from '@/components/EconomicLossPanel';
 import 'leaflet/dist/leaflet.css';
 
 // Fix Leaflet default icon issue
@@ -24,8 +82,51 @@ interface BlastMapProps {
   cityName: string;
   weaponId?: string;
   weaponData?: NuclearWeapon;
+  weather?: WeatherConditions;
+  scenarioTime?: ScenarioTime;
+  shelter?: ShelterScenario;
+  demographics?: Demographics;
+  populationSeed?: number; // seed for synthetic population, derived from the location when unset
 }
 
+type ZoneCategory = 'blast' | 'thermal' | 'radiation' | 'fallout' | 'infrastructure';
+
+interface BlastZone {
+  radius: number; // meters; downwind extent for plume-shaped zones
+  color: string;
+  fillOpacity: number;
+  name: string;
+  description: string;
+  category: ZoneCategory;
+  polygon?: Array<[number, number]>; // Non-circular zones such as fallout plumes
+  extentSuffix?: string; // Qualifies the extent shown for non-circular zones
+}
+
+// Sidebar grouping of zone categories
+const ZONE_CATEGORIES: Array<{ id: ZoneCategory; label: string; className: string }> = [
+  { id: 'blast', label: 'Blast Effects', className: 'text-orange-400' },
+  { id: 'thermal', label: 'Thermal Effects', className: 'text-cyan-400' },
+  { id: 'radiation', label: 'Radiation Effects', className: 'text-purple-400' },
+  { id: 'fallout', label: 'Fallout (H+1 dose rate)', className: 'text-lime-400' },
+  { id: 'infrastructure', label: 'Infrastructure', className: 'text-blue-400' },
+];
+
+// Colors for fallout contours, from highest to lowest dose rate
+const FALLOUT_COLORS = ['#4D7C0F', '#65A30D', '#A3E635', '#D9F99D'];
+
+// Format an accumulated dose in rem
+const formatDose = (rem: number): string => {
+  if (rem >= 100) return `${Math.round(rem).toLocaleString()} rem`;
+  if (rem >= 1) return `${rem.toFixed(1)} rem`;
+  return `${rem.toFixed(3)} rem`;
+};
+
+// Human-readable extent of a zone
+const formatZoneExtent = (zone: BlastZone): string => {
+  const km = (zone.radius / 1000).toFixed(1);
+  return zone.extentSuffix ? `${km} km ${zone.extentSuffix}` : `${km} km`;
+};
+
 // Component to handle map click events
 function MapClickHandler({ onPositionChange }: { onPositionChange: (lat: number, lng: number) => void }) {
   useMapEvents({
@@ -36,6 +137,100 @@ function MapClickHandler({ onPositionChange }: { onPositionChange: (lat: number,
   return null;
 }
 
+// Readout of point effects under the cursor, keeps its own state so mouse moves don't re-render the map
+function CursorEffectsReadout({
+  center,
+  blastEffects,
+  buildingDamage,
+}: {
+  center: [number, number];
+  blastEffects: NuclearWeapon['blastEffects'];
+  buildingDamage?: BuildingDamage | null;
+}) {
+  const [cursor, setCursor] = useState<{ lat: number; lng: number } | null>(null);
+
+  useMapEvents({
+    mousemove(e) {
+      setCursor({ lat: e.latlng.lat, lng: e.latlng.lng });
+    },
+    mouseout() {
+      setCursor(null);
+    },
+  });
+
+  if (!cursor) return null;
+
+  const distanceKm = haversineDistance({ lat: center[0], lng: center[1] }, cursor) / 1000;
+  const effects = effectsAtRangeFromBlastEffects(blastEffects, distanceKm);
+  const formatValue = (value: number) => {
+    if (value >= 100) return Math.round(value).toLocaleString();
+    return value < 0.01 ? '<0.01' : value.toPrecision(2);
+  };
+
+  // Buildings in the grid cell under the cursor, read from the damage already computed
+  const cellDamage = buildingDamage ? buildingDamageAt(buildingDamage, cursor) : null;
+
+  return (
+    <div className="hidden sm:block absolute bottom-4 left-1/2 -translate-x-1/2 z-[999] bg-black bg-opacity-80 text-white rounded-lg px-3 py-2 text-xs pointer-events-none">
+      <div className="flex gap-4">
+        <span>{distanceKm.toFixed(2)} km from ground zero</span>
+        <span className="text-orange-400">{formatValue(effects.overpressure)} psi</span>
+        <span className="text-orange-300">{formatValue(effects.dynamicPressure)} psi dynamic</span>
+        <span className="text-cyan-400">{formatValue(effects.thermalFluence)} cal/cm²</span>
+        <span className="text-purple-400">{formatValue(effects.promptDose)} rem prompt</span>
+      </div>
+      {cellDamage && cellDamage.buildings > 0 && (
+        <div className="flex gap-4 mt-1 text-gray-300">
+          <span>{cellDamage.buildings} buildings in this cell</span>
+          {cellDamage.worstState && (
+            <span style={{ color: DAMAGE_STATE_INFO[cellDamage.worstState].color }}>
+              Worst: {DAMAGE_STATE_INFO[cellDamage.worstState].label}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Building damage choropleth drawn as one image with a pixel per grid cell, so large grids
+// don't add a map layer per cell
+function BuildingDamageOverlay({ buildingDamage }: { buildingDamage: BuildingDamage }) {
+  const url = useMemo(() => {
+    const { rows, cols, worstStates } = buildingDamage;
+    const canvas = document.createElement('canvas');
+    canvas.width = cols;
+    canvas.height = rows;
+    const context = canvas.getContext('2d');
+    if (!context || rows === 0 || cols === 0) return null;
+
+    const colors = DAMAGE_STATES.map(state => {
+      const hex = DAMAGE_STATE_INFO[state].color;
+      return [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+    });
+    const image = context.createImageData(cols, rows);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        const state = worstStates[row * cols + col];
+        if (state === 0) continue;
+        // Grid rows run from the south, image rows from the top
+        const pixel = ((rows - 1 - row) * cols + col) * 4;
+        image.data.set([...colors[state - 1], 255], pixel);
+      }
+    }
+    context.putImageData(image, 0, 0);
+    return canvas.toDataURL();
+  }, [buildingDamage]);
+
+  const bounds = useMemo((): [[number, number], [number, number]] => {
+    const { south, west, north, east } = buildingDamage.bounds;
+    return [[south, west], [north, east]];
+  }, [buildingDamage]);
+
+  if (!url) return null;
+  return <ImageOverlay url={url} bounds={bounds} opacity={0.45} className="[image-rendering:pixelated]" />;
+}
+
 // Custom zoom controls component
 function ZoomControls() {
   const map = useMap();
@@ -123,19 +318,14 @@ function InteractiveBlastZone({
   zone, 
   center,
   isHighlighted,
-  onHover
+  onHover,
+  populationGrid,
 }: { 
-  zone: {
-    radius: number;
-    color: string;
-    fillOpacity: number;
-    name: string;
-    description: string;
-    category: string;
-  };
+  zone: BlastZone;
   center: [number, number];
   isHighlighted: boolean;
   onHover: (hovering: boolean) => void;
+  populationGrid?: PopulationGrid | null;
 }) {
   const [showTooltip, setShowTooltip] = useState(false);
 
@@ -150,75 +340,367 @@ function InteractiveBlastZone({
     },
   };
 
+  const pathOptions = {
+    color: zone.color,
+    fillColor: zone.color,
+    fillOpacity: isHighlighted ? zone.fillOpacity * 1.5 : zone.fillOpacity,
+    weight: isHighlighted ? 3 : 1,
+  };
+
+  // People inside the zone, counted only while the tooltip is open
+  const population = showTooltip && populationGrid
+    ? zone.polygon
+      ? populationInPolygon(populationGrid, zone.polygon)
+      : populationInCircle(populationGrid, { lat: center[0], lng: center[1] }, zone.radius)
+    : null;
+
+  const tooltip = showTooltip && (
+    <Tooltip permanent direction="top" offset={[0, -10]}>
+      <div className="text-sm font-medium">{zone.name}</div>
+      <div className="text-xs">{zone.extentSuffix ? formatZoneExtent(zone) : `${(zone.radius / 1000).toFixed(1)} km radius`}</div>
+      <div className="text-xs text-gray-600">{zone.description}</div>
+      {population !== null && (
+        <div className="text-xs">~{formatCasualties(Math.round(population))} people inside the population grid</div>
+      )}
+    </Tooltip>
+  );
+
+  if (zone.polygon) {
+    return (
+      <Polygon positions={zone.polygon} pathOptions={pathOptions} eventHandlers={eventHandlers}>
+        {tooltip}
+      </Polygon>
+    );
+  }
+
   return (
     <Circle
       center={center}
       radius={zone.radius}
-      pathOptions={{
-        color: zone.color,
-        fillColor: zone.color,
-        fillOpacity: isHighlighted ? zone.fillOpacity * 1.5 : zone.fillOpacity,
-        weight: isHighlighted ? 3 : 1,
-      }}
+      pathOptions={pathOptions}
       eventHandlers={eventHandlers}
     >
-      {showTooltip && (
-        <Tooltip permanent direction="top" offset={[0, -10]}>
-          <div className="text-sm font-medium">{zone.name}</div>
-          <div className="text-xs">{(zone.radius / 1000).toFixed(1)} km radius</div>
-          <div className="text-xs text-gray-600">{zone.description}</div>
-        </Tooltip>
-      )}
+      {tooltip}
     </Circle>
   );
 }
 
-export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponData }: BlastMapProps) {
+export default function BlastMap({
+  lat,
+  lng,
+  radius,
+  bombName,
+  cityName,
+  weaponData,
+  weather,
+  scenarioTime = DEFAULT_SCENARIO_TIME,
+  shelter = DEFAULT_SHELTER_SCENARIO,
+  demographics = DEFAULT_DEMOGRAPHICS,
+  populationSeed,
+}: BlastMapProps) {
   const [currentPosition, setCurrentPosition] = useState<[number, number]>([lat, lng]);
   const [hoveredZoneIndex, setHoveredZoneIndex] = useState<number | null>(null);
   const [showInfo, setShowInfo] = useState(false);
-  const [selectedCategory, setSelectedCategory] = useState<'all' | 'blast' | 'thermal' | 'radiation' | 'infrastructure'>('blast');
+  const [selectedCategory, setSelectedCategory] = useState<'all' | ZoneCategory>('blast');
   const [mapStyle, setMapStyle] = useState<'voyager' | 'satellite' | 'dark'>('voyager');
   const [casualtyData, setCasualtyData] = useState<CasualtyData | null>(null);
   const [showCasualties, setShowCasualties] = useState(true);
   const [showMobileCasualties, setShowMobileCasualties] = useState(false);
   const [isCalculatingCasualties, setIsCalculatingCasualties] = useState(false);
+  const [windSpeed, setWindSpeed] = useState(DEFAULT_WIND.speedKmh);
+  const [windDirection, setWindDirection] = useState(DEFAULT_WIND.direction);
+  const [fissionFraction, setFissionFraction] = useState(
+    () => weaponData ? getWeaponDesignParameters(weaponData).fissionFraction : DEFAULT_FISSION_FRACTION
+  );
+  const [mapTool, setMapTool] = useState<'move' | 'dose'>('move');
+  const [doseQueryPoint, setDoseQueryPoint] = useState<[number, number] | null>(null);
+  const [doseWindow, setDoseWindow] = useState({ arrival: 1, departure: 48 });
+  const [protectionFactor, setProtectionFactor] = useState(1);
+  const [populationData, setPopulationData] = useState<PopulationData | null>(null);
+  const populationGrid = populationData?.populationGrid ?? null;
+  const [riskCoefficients, setRiskCoefficients] = useState(BEIR_VII_COEFFICIENTS);
+  const [showBuildingDamage, setShowBuildingDamage] = useState(true);
+  const [hospitalData, setHospitalData] = useState<{ hospitals: Hospital[]; source: MedicalCapacity['source'] } | null>(null);
+  const [showHospitals, setShowHospitals] = useState(true);
+  const [infrastructureAssets, setInfrastructureAssets] = useState<InfrastructureAsset[] | null>(null);
+  const [buildingDamage, setBuildingDamage] = useState<BuildingDamage | null>(null);
+  const [buildingLoss, setBuildingLoss] = useState<BuildingLoss | null>(null);
+  const [longTermHealth, setLongTermHealth] = useState<LongTermHealth | null>(null);
+  const [fireEffects, setFireEffects] = useState<FireEffects | null>(null);
 
   const handlePositionChange = (newLat: number, newLng: number) => {
     setCurrentPosition([newLat, newLng]);
   };
 
-  // Fetch population data and calculate casualties
+  const handleDoseQuery = (queryLat: number, queryLng: number) => {
+    setDoseQueryPoint([queryLat, queryLng]);
+  };
+
+  // Position the grid analyses run at, trailing the marker while it is dragged
+  const [analysisPosition, setAnalysisPosition] = useState<[number, number]>([lat, lng]);
+  useEffect(() => {
+    const timeoutId = setTimeout(() => setAnalysisPosition(currentPosition), 100);
+    return () => clearTimeout(timeoutId);
+  }, [currentPosition]);
+
+  // Fetch population data, then work out fire zones and casualties in the grid analysis worker
+  // Grid analyses follow analysisPosition, so dragging does not rerun them every frame. Fire
+  // zones use the building floor area fetched with the population data as fuel.
   useEffect(() => {
+    if (!weaponData) return;
+    let cancelled = false;
     const fetchPopulationAndCalculateCasualties = async () => {
-      if (weaponData) {
-        setIsCalculatingCasualties(true);
+      setIsCalculatingCasualties(true);
+      try {
         const popData = await estimatePopulationDensity(
-          currentPosition[0], 
-          currentPosition[1], 
-          cityName
+          analysisPosition[0],
+          analysisPosition[1],
+          cityName,
+          scenarioTime,
+          populationSeed
         );
-        
-        const casualties = calculateCasualties(
-          weaponData.blastEffects, 
+        if (cancelled) return;
+
+        const center = { lat: analysisPosition[0], lng: analysisPosition[1] };
+        const fire = await calculateFireEffectsInWorker(
+          weaponData.yield,
+          weaponData.blastEffects,
+          center,
+          popData.populationGrid
+        );
+        const casualties = await calculateCasualtiesInWorker(
+          weaponData.blastEffects,
           popData,
-          { lat: currentPosition[0], lng: currentPosition[1] }
+          center,
+          { fireEffects: fire, shelter, demographics }
         );
+        // A newer position or scenario has started its own calculation
+        if (cancelled) return;
+        setPopulationData(popData);
+        setFireEffects(fire);
         setCasualtyData(casualties);
-        setIsCalculatingCasualties(false);
+      } catch (error) {
+        console.error('Error calculating casualties:', error);
+        if (cancelled) return;
+        setFireEffects(null);
+        setCasualtyData(null);
       }
+      setIsCalculatingCasualties(false);
     };
 
-    // Add a small delay to debounce rapid position changes during dragging
-    const timeoutId = setTimeout(() => {
-      fetchPopulationAndCalculateCasualties();
-    }, 100);
+    fetchPopulationAndCalculateCasualties();
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisPosition, weaponData, cityName, scenarioTime, shelter, demographics, populationSeed]);
 
-    return () => clearTimeout(timeoutId);
-  }, [currentPosition, weaponData, cityName]);
+  // Fetch hospitals around ground zero for the medical capacity analysis
+  useEffect(() => {
+    if (!weaponData) return;
+    let cancelled = false;
+    const fetchHospitalData = async () => {
+      const result = await fetchHospitals(
+        analysisPosition[0],
+        analysisPosition[1],
+        hospitalSearchRadiusKm(weaponData.blastEffects)
+      );
+      if (!cancelled) setHospitalData(result);
+    };
+
+    fetchHospitalData();
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisPosition, weaponData]);
+
+  // Fetch roads, bridges, substations and water facilities out to the 1 psi ring
+  useEffect(() => {
+    if (!weaponData) return;
+    let cancelled = false;
+    const fetchInfrastructureAssets = async () => {
+      const result = await fetchInfrastructure(
+        analysisPosition[0],
+        analysisPosition[1],
+        weaponData.blastEffects.overpressure.psi1
+      );
+      if (!cancelled) setInfrastructureAssets(result);
+    };
+
+    fetchInfrastructureAssets();
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisPosition, weaponData]);
+
+  // Local fallout only forms when the fireball touches the ground, and a buried burst only
+  // releases the share that vents
+  const burstDepth = weaponData?.burstInfo?.depth ?? 0;
+  const falloutFraction = weaponData
+    ? calculateGroundCoupling(weaponData.yield, getWeaponHeightOfBurst(weaponData)) * ventedFraction(weaponData.yield, burstDepth)
+    : 0;
+  const falloutParams: FalloutParameters | null = useMemo(() => weaponData ? {
+    yieldKt: weaponData.yield,
+    fissionFraction,
+    falloutFraction,
+    windSpeedKmh: windSpeed,
+    windDirection,
+  } : null, [weaponData, fissionFraction, falloutFraction, windSpeed, windDirection]);
+  const falloutContours = useMemo(() => falloutParams
+    ? calculateFalloutContours(falloutParams, { lat: currentPosition[0], lng: currentPosition[1] })
+    : [], [falloutParams, currentPosition]);
+
+  // Accumulated fallout dose at the queried point over the chosen stay
+  const doseQueryResult = useMemo(() => {
+    if (!falloutParams || !doseQueryPoint) return null;
+    const center = { lat: currentPosition[0], lng: currentPosition[1] };
+    const point = { lat: doseQueryPoint[0], lng: doseQueryPoint[1] };
+    return {
+      distance: haversineDistance(center, point),
+      ...calculateFalloutDoseAtPoint(
+        falloutParams,
+        center,
+        point,
+        doseWindow.arrival,
+        doseWindow.departure,
+        protectionFactor
+      ),
+    };
+  }, [falloutParams, doseQueryPoint, currentPosition, doseWindow, protectionFactor]);
+
+  // Surviving hospital capacity against the medical burden
+  const medicalCapacity = useMemo(() => weaponData && hospitalData && casualtyData
+    ? assessMedicalCapacity(
+      hospitalData.hospitals,
+      hospitalData.source,
+      weaponData.blastEffects,
+      { lat: analysisPosition[0], lng: analysisPosition[1] },
+      casualtyData.medicalBurden,
+      fireEffects
+    )
+    : null, [weaponData, hospitalData, casualtyData, analysisPosition, fireEffects]);
+
+  // Excess cancers among survivors from the prompt and fallout doses
+  useEffect(() => {
+    if (!casualtyData || !populationData) {
+      setLongTermHealth(null);
+      return;
+    }
+    let cancelled = false;
+    const projectLongTermHealth = async () => {
+      try {
+        const result = await calculateLongTermHealthInWorker(
+          casualtyData.survivors,
+          populationData,
+          { lat: analysisPosition[0], lng: analysisPosition[1] },
+          falloutParams,
+          riskCoefficients
+        );
+        if (!cancelled) setLongTermHealth(result);
+      } catch (error) {
+        console.error('Error projecting long-term health effects:', error);
+        if (!cancelled) setLongTermHealth(null);
+      }
+    };
+
+    projectLongTermHealth();
+    return () => {
+      cancelled = true;
+    };
+  }, [casualtyData, populationData, analysisPosition, falloutParams, riskCoefficients]);
+
+  // Building losses for the economic panel, and building damage, which needs construction
+  // classes from the OSM building data
+  useEffect(() => {
+    if (!weaponData) {
+      setBuildingLoss(null);
+      setBuildingDamage(null);
+      return;
+    }
+    let cancelled = false;
+    const calculateBuildingEffects = async () => {
+      const center = { lat: analysisPosition[0], lng: analysisPosition[1] };
+      try {
+        const [loss, damage] = await Promise.all([
+          calculateBuildingLossInWorker(weaponData.blastEffects, populationGrid, center),
+          calculateBuildingDamageInWorker(weaponData.blastEffects, populationGrid, center),
+        ]);
+        if (cancelled) return;
+        setBuildingLoss(loss);
+        setBuildingDamage(damage);
+      } catch (error) {
+        console.error('Error calculating building damage:', error);
+        if (cancelled) return;
+        setBuildingLoss(null);
+        setBuildingDamage(null);
+      }
+    };
+
+    calculateBuildingEffects();
+    return () => {
+      cancelled = true;
+    };
+  }, [weaponData, analysisPosition, populationGrid]);
+
+  // Infrastructure damage for the economic panel
+  const infrastructureDamage = useMemo(() => weaponData && infrastructureAssets
+    ? assessInfrastructure(
+      infrastructureAssets,
+      weaponData.blastEffects,
+      { lat: analysisPosition[0], lng: analysisPosition[1] }
+    )
+    : null, [weaponData, analysisPosition, infrastructureAssets]);
+
+  // EMP depends on burst altitude: high-altitude bursts produce HEMP bands, others a source-region EMP
+  const empEffects = useMemo(() => {
+    if (!weaponData) return null;
+    const burstAltitudeKm = (getBurstHeightMeters(getWeaponHeightOfBurst(weaponData)) ?? 0) / 1000;
+    return calculateEmpEffects(
+      weaponData.yield,
+      burstAltitudeKm,
+      weaponData.blastEffects,
+      { lat: currentPosition[0], lng: currentPosition[1] }
+    );
+  }, [weaponData, currentPosition]);
+
+  const empZones: BlastZone[] = useMemo(() => {
+    const emp = empEffects;
+    if (!emp) return [];
+
+    if (emp.type === 'source-region') {
+      return [{
+        radius: emp.sourceRegionRadiusKm * 1000,
+        color: '#8A2BE2',
+        fillOpacity: 0.05,
+        name: 'Source-region EMP',
+        description: 'Intense local pulse - electronics and power lines near ground zero damaged',
+        category: 'infrastructure',
+      }];
+    }
+
+    return [
+      ...emp.bands.map((band, i): BlastZone => ({
+        radius: band.maxRangeKm * 1000,
+        color: i === 0 ? '#4B0082' : '#6A5ACD',
+        fillOpacity: 0.1,
+        name: `E1 EMP (>${band.fieldStrength} kV/m)`,
+        description: `High-altitude EMP "smile" - peak ${emp.peakField.toFixed(0)} kV/m, unprotected electronics at risk`,
+        category: 'infrastructure',
+        polygon: band.polygon,
+        extentSuffix: 'max range',
+      })),
+      {
+        radius: emp.tangentRadiusKm * 1000,
+        color: '#8A2BE2',
+        fillOpacity: 0.03,
+        name: 'EMP line of sight',
+        description: 'Tangent radius - everything within line of sight of the burst sees the E1 pulse',
+        category: 'infrastructure',
+      },
+    ];
+  }, [empEffects]);
 
   // Use accurate blast zones from weapon data if available
-  const blastZones = weaponData ? [
+  const blastZones: BlastZone[] = weaponData ? [
     {
       radius: weaponData.blastEffects.fireball,
       color: '#FF0000',
@@ -227,6 +709,33 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
       description: 'Complete vaporization - everything destroyed',
       category: 'blast',
     },
+    // Crater zones only exist for surface and buried bursts
+    ...(weaponData.blastEffects.crater ? [
+      {
+        radius: weaponData.blastEffects.crater.apparentRadius,
+        color: '#3F2A14',
+        fillOpacity: 0.6,
+        name: 'Crater',
+        description: `${effectDescriptions.crater.apparentRadius}, ${weaponData.blastEffects.crater.depth.toFixed(0)} m deep`,
+        category: 'blast' as const,
+      },
+      {
+        radius: weaponData.blastEffects.crater.lipRadius,
+        color: '#6B4423',
+        fillOpacity: 0.4,
+        name: 'Crater lip',
+        description: effectDescriptions.crater.lipRadius,
+        category: 'blast' as const,
+      },
+      {
+        radius: weaponData.blastEffects.crater.groundShockRadius,
+        color: '#8B5A2B',
+        fillOpacity: 0.25,
+        name: 'Ground shock',
+        description: effectDescriptions.crater.groundShockRadius,
+        category: 'blast' as const,
+      },
+    ] : []),
     {
       radius: weaponData.blastEffects.overpressure.psi20 * 1000, // Convert km to meters
       color: '#8B0000',
@@ -299,15 +808,39 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
       description: 'Sunburn-like effects',
       category: 'thermal',
     },
-    {
-      // EMP radius approximation: roughly 2x the 1 psi blast radius for airburst
-      radius: weaponData.blastEffects.overpressure.psi1 * 2000,
-      color: '#8A2BE2',
-      fillOpacity: 0.05,
-      name: 'EMP effects',
-      description: 'Electromagnetic pulse - electronics disruption',
-      category: 'infrastructure',
-    },
+    ...(fireEffects ? [
+      {
+        radius: fireEffects.massFireRadiusKm * 1000,
+        color: '#B22222',
+        fillOpacity: 0.2,
+        name: fireEffects.firestorm ? 'Firestorm' : 'Mass fire',
+        description: fireEffects.firestorm
+          ? `Fuel loading ${fireEffects.meanFuelLoading.toFixed(0)} kg/m² - fires merge into a firestorm`
+          : `Fuel loading ${fireEffects.meanFuelLoading.toFixed(0)} kg/m² - widespread building fires`,
+        category: 'thermal' as const,
+      },
+      {
+        radius: fireEffects.ignition[0].radiusKm * 1000,
+        color: '#FF8C00',
+        fillOpacity: 0.05,
+        name: 'Scattered ignitions',
+        description: `${fireEffects.ignition[0].material} ignite (${fireEffects.ignition[0].threshold.toFixed(1)} cal/cm²)`,
+        category: 'thermal' as const,
+      },
+    ] : []),
+    ...falloutContours.map((contour, i): BlastZone => ({
+      radius: contour.downwindKm * 1000,
+      color: FALLOUT_COLORS[i % FALLOUT_COLORS.length],
+      fillOpacity: 0.2,
+      name: `Fallout (${contour.doseRate} rad/hr)`,
+      description: polygonArea(contour.polygon) > 0
+        ? `${contour.doseRate} rad/hr at H+1, ${contour.maxWidthKm.toFixed(1)} km wide`
+        : 'No local fallout at this dose rate for this burst height',
+      category: 'fallout',
+      polygon: contour.polygon,
+      extentSuffix: 'downwind',
+    })),
+    ...empZones,
   ] : [
     // Fallback to original approximations if no weapon data
     {
@@ -384,6 +917,9 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
   const getVisibleZones = () => {
     return blastZones.filter((zone, index) => {
       if (!activeZones.has(index)) return false;
+      if (zone.radius <= 0) return false;
+      // Fallout contours collapse to a point when there is no local fallout at their dose rate
+      if (zone.polygon && !(polygonArea(zone.polygon) > 0)) return false;
       if (selectedCategory === 'all') return true;
       return zone.category === selectedCategory;
     });
@@ -410,6 +946,35 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
     setActiveZones(new Set(blastZones.map((_, i) => i)));
   };
 
+  // Sidebar row for toggling a zone's visibility
+  const renderZoneToggle = (zone: BlastZone) => {
+    const index = blastZones.findIndex(z => z === zone);
+    return (
+      <div 
+        key={index} 
+        className={`flex items-start p-1 rounded transition-colors cursor-pointer ${
+          hoveredZoneIndex === index ? 'bg-gray-800' : ''
+        } ${!activeZones.has(index) ? 'opacity-50' : ''}`}
+        onMouseEnter={() => setHoveredZoneIndex(index)}
+        onMouseLeave={() => setHoveredZoneIndex(null)}
+        onClick={() => toggleZone(index)}
+      >
+        <input
+          type="checkbox"
+          checked={activeZones.has(index)}
+          onChange={() => toggleZone(index)}
+          className="mr-2 mt-0.5"
+          onClick={(e) => e.stopPropagation()}
+        />
+        <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 mt-0.5 flex-shrink-0" style={{ backgroundColor: zone.color }} />
+        <div className="flex-1">
+          <p className="font-medium">{zone.name}: {formatZoneExtent(zone)}</p>
+          <p className="text-gray-300 text-xs">{zone.description}</p>
+        </div>
+      </div>
+    );
+  };
+
   // Get map tile URL based on selected style
   const getMapTileUrl = () => {
     switch (mapStyle) {
@@ -456,7 +1021,30 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
           detectRetina={true}
         />
         
-        <MapClickHandler onPositionChange={handlePositionChange} />
+        <MapClickHandler onPositionChange={mapTool === 'dose' ? handleDoseQuery : handlePositionChange} />
+        
+        {showBuildingDamage && buildingDamage && (
+          <BuildingDamageOverlay buildingDamage={buildingDamage} />
+        )}
+        
+        {showHospitals && medicalCapacity?.hospitals.map(({ hospital, status, overpressure, survivingBeds }) => (
+          <CircleMarker
+            key={hospital.id}
+            center={[hospital.lat, hospital.lng]}
+            radius={5}
+            pathOptions={{ color: '#FFFFFF', fillColor: HOSPITAL_STATUS_INFO[status].color, fillOpacity: 0.9, weight: 1.5 }}
+          >
+            <Tooltip>
+              <div className="text-xs font-medium">{hospital.name}</div>
+              <div className="text-xs text-gray-600">
+                {HOSPITAL_STATUS_INFO[status].label} ({overpressure.toFixed(1)} psi)
+              </div>
+              <div className="text-xs text-gray-600">
+                {survivingBeds} of {hospital.beds} beds{hospital.bedsSource === 'assumed' ? ' (assumed)' : ''}
+              </div>
+            </Tooltip>
+          </CircleMarker>
+        ))}
         
         {sortedZones.map((zone) => {
           const originalIndex = blastZones.findIndex(z => z.name === zone.name);
@@ -467,11 +1055,27 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
               center={currentPosition}
               isHighlighted={hoveredZoneIndex === originalIndex}
               onHover={(hovering) => setHoveredZoneIndex(hovering ? originalIndex : null)}
+              populationGrid={populationGrid}
             />
           );
         })}
         
         
+        {doseQueryPoint && doseQueryResult && (
+          <CircleMarker
+            center={doseQueryPoint}
+            radius={6}
+            pathOptions={{ color: '#FFFFFF', fillColor: '#65A30D', fillOpacity: 0.9, weight: 2 }}
+          >
+            <Tooltip permanent direction="right" offset={[8, 0]}>
+              <div className="text-xs font-medium">{formatDose(doseQueryResult.dose)}</div>
+              <div className="text-xs text-gray-600">
+                H+{doseWindow.arrival} to H+{doseWindow.departure}, PF {protectionFactor}
+              </div>
+            </Tooltip>
+          </CircleMarker>
+        )}
+        
         <DraggableMarker 
           position={currentPosition}
           bombName={bombName}
@@ -479,6 +1083,14 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
           onPositionChange={handlePositionChange}
         />
         
+        {weaponData && (
+          <CursorEffectsReadout
+            center={currentPosition}
+            blastEffects={weaponData.blastEffects}
+            buildingDamage={showBuildingDamage ? buildingDamage : null}
+          />
+        )}
+        
         <ZoomControls />
       </MapContainer>
       
@@ -556,6 +1168,16 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
             >
               Radiation
             </button>
+            <button
+              onClick={() => handleCategoryChange('fallout')}
+              className={`px-2 py-0.5 text-xs rounded transition-colors text-left ${
+                selectedCategory === 'fallout' 
+                  ? 'bg-lime-600 text-white' 
+                  : 'bg-gray-700 hover:bg-gray-600 text-white'
+              }`}
+            >
+              Fallout
+            </button>
             <button
               onClick={() => handleCategoryChange('infrastructure')}
               className={`px-2 py-0.5 text-xs rounded transition-colors text-left ${
@@ -582,7 +1204,7 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
                     style={{ backgroundColor: zone.color }}
                   />
                   <span className="text-xs whitespace-nowrap">
-                    {zone.name} <span className="text-gray-400">({(zone.radius / 1000).toFixed(1)}km)</span>
+                    {zone.name} <span className="text-gray-400">({formatZoneExtent(zone)})</span>
                   </span>
                 </div>
               );
@@ -639,9 +1261,15 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
         <p className="text-sm mb-1">Target: {cityName}</p>
         {weaponData && (
           <>
-            <p className="text-xs text-gray-400 mb-1">Yield: {weaponData.yield >= 1000 ? `${(weaponData.yield / 1000).toFixed(1)} Mt` : `${weaponData.yield} kt`}</p>
+            <p className="text-xs text-gray-400 mb-1">Yield: {formatYield(weaponData.yield)}</p>
             {weaponData.country && <p className="text-xs text-gray-400 mb-1">Country: {weaponData.country}</p>}
             {weaponData.year && <p className="text-xs text-gray-400 mb-1">Year: {weaponData.year}</p>}
+            {weaponData.design && (
+              <p className="text-xs text-gray-400 mb-1">
+                Design: {WEAPON_DESIGNS[weaponData.design].label}, {(getWeaponDesignParameters(weaponData).fissionFraction * 100).toFixed(0)}% fission,
+                n/γ {getWeaponDesignParameters(weaponData).neutronGammaRatio}
+              </p>
+            )}
             {weaponData.burstInfo && (
               <>
                 <p className="text-xs text-gray-400 mb-1">
@@ -652,6 +1280,24 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
             )}
           </>
         )}
+        {weather && (
+          <p className="text-xs text-gray-400 mb-1">Conditions: {describeWeatherConditions(weather)}</p>
+        )}
+        <p className="text-xs text-gray-400 mb-1">Scenario time: {describeScenarioTime(scenarioTime)}</p>
+        <p className="text-xs text-gray-400 mb-1">Shelter: {describeShelterScenario(shelter)}</p>
+        <p className="text-xs text-gray-400 mb-1">Population: {describeDemographics(demographics)}</p>
+        {fireEffects && (
+          <p className="text-xs text-gray-400 mb-1">
+            Fire: {fireEffects.firestorm ? 'Firestorm likely' : 'Mass fire, no firestorm'}, fuel {fireEffects.meanFuelLoading.toFixed(0)} kg/m²
+            {fireEffects.fuelSource === 'osm' ? ' from building data' : ' (assumed)'}
+          </p>
+        )}
+        {empEffects && (
+          <p className="text-xs text-gray-400 mb-1">
+            EMP: {empEffects.type === 'high-altitude' ? 'High-altitude' : 'Source-region'}, peak {empEffects.peakField.toFixed(0)} kV/m,
+            geomagnetic latitude {empEffects.magneticLatitude.toFixed(1)}°
+          </p>
+        )}
         <p className="text-xs text-gray-400 mb-3">
           Click map or drag marker to move blast center
         </p>
@@ -669,11 +1315,21 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
               </button>
             </div>
             {showCasualties && (
-              <CasualtyEstimates 
-                casualtyData={casualtyData} 
-                isLoading={!casualtyData || isCalculatingCasualties}
-                usingRealData={casualtyData?.usingRealData}
-              />
+              <div className="space-y-3">
+                <CasualtyEstimates 
+                  casualtyData={casualtyData} 
+                  isLoading={!casualtyData || isCalculatingCasualties}
+                  usingRealData={casualtyData?.usingRealData}
+                  buildingDamage={buildingDamage}
+                  medicalCapacity={medicalCapacity}
+                  longTermHealth={longTermHealth}
+                />
+                <EconomicLossPanel
+                  buildingLoss={buildingLoss}
+                  infrastructure={infrastructureDamage}
+                  isLoading={isCalculatingCasualties}
+                />
+              </div>
             )}
           </div>
         )}
@@ -709,7 +1365,207 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
           </div>
         </div>
         
+        {/* Building Damage - choropleth of the worst damage state per grid cell */}
+        {buildingDamage && (
+          <div className="mb-3">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-semibold">Building Damage:</p>
+              <button
+                onClick={() => setShowBuildingDamage(!showBuildingDamage)}
+                className="text-xs text-gray-400 hover:text-white transition-colors"
+              >
+                {showBuildingDamage ? 'Hide' : 'Show'}
+              </button>
+            </div>
+            <div className="space-y-0.5 text-xs">
+              {DAMAGE_STATES.map(state => (
+                <div key={state} className="flex items-center">
+                  <span className="inline-block w-2.5 h-2.5 rounded-sm mr-2 flex-shrink-0" style={{ backgroundColor: DAMAGE_STATE_INFO[state].color }} />
+                  <span className="text-gray-300">{DAMAGE_STATE_INFO[state].label}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
         
+        {/* Hospitals - status markers for the medical capacity analysis */}
+        {medicalCapacity && (
+          <div className="mb-3">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-semibold">Hospitals ({medicalCapacity.hospitals.length}):</p>
+              <button
+                onClick={() => setShowHospitals(!showHospitals)}
+                className="text-xs text-gray-400 hover:text-white transition-colors"
+              >
+                {showHospitals ? 'Hide' : 'Show'}
+              </button>
+            </div>
+            <div className="space-y-0.5 text-xs">
+              {(Object.keys(HOSPITAL_STATUS_INFO) as HospitalStatus[]).map(status => (
+                <div key={status} className="flex items-center">
+                  <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 flex-shrink-0" style={{ backgroundColor: HOSPITAL_STATUS_INFO[status].color }} />
+                  <span className="text-gray-300">{HOSPITAL_STATUS_INFO[status].label}: {medicalCapacity.statusCounts[status]}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+        
+        {/* Cancer Risk - linear no-threshold coefficients for the long-term health estimate */}
+        {weaponData && (
+          <div className="mb-3">
+            <p className="text-xs font-semibold mb-2">Cancer Risk (LNT, per Sv):</p>
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-400">Incidence</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={riskCoefficients.incidencePerSv}
+                  onChange={(e) => setRiskCoefficients({
+                    ...riskCoefficients,
+                    incidencePerSv: Math.max(0, parseFloat(e.target.value) || 0),
+                  })}
+                  className="px-2 py-1 bg-gray-800 border border-gray-700 rounded"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-400">Mortality</span>
+                <input
+                  type="number"
+                  min={0}
+                  step={0.01}
+                  value={riskCoefficients.mortalityPerSv}
+                  onChange={(e) => setRiskCoefficients({
+                    ...riskCoefficients,
+                    mortalityPerSv: Math.max(0, parseFloat(e.target.value) || 0),
+                  })}
+                  className="px-2 py-1 bg-gray-800 border border-gray-700 rounded"
+                />
+              </label>
+            </div>
+            {riskCoefficients !== BEIR_VII_COEFFICIENTS && (
+              <button
+                onClick={() => setRiskCoefficients(BEIR_VII_COEFFICIENTS)}
+                className="text-xs text-gray-400 hover:text-white transition-colors mt-1"
+              >
+                Reset to BEIR VII
+              </button>
+            )}
+          </div>
+        )}
+        
+        {/* Fallout Settings - user-entered wind, no weather service needed */}
+        {weaponData && (
+          <div className="mb-3">
+            <p className="text-xs font-semibold mb-2">Fallout:</p>
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-400">Wind speed (km/h)</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={windSpeed}
+                  onChange={(e) => setWindSpeed(Math.max(0, parseFloat(e.target.value) || 0))}
+                  className="px-2 py-1 bg-gray-800 border border-gray-700 rounded"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-400">Wind from (°)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={359}
+                  value={windDirection}
+                  onChange={(e) => setWindDirection(((parseFloat(e.target.value) || 0) % 360 + 360) % 360)}
+                  className="px-2 py-1 bg-gray-800 border border-gray-700 rounded"
+                />
+              </label>
+              <label className="flex flex-col gap-1 col-span-2">
+                <span className="text-gray-400">Fission fraction: {Math.round(fissionFraction * 100)}%</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={fissionFraction}
+                  onChange={(e) => setFissionFraction(parseFloat(e.target.value))}
+                />
+              </label>
+            </div>
+            {falloutFraction === 0 && (
+              <p className="text-xs text-gray-400 mt-1">
+                {burstDepth > 0
+                  ? 'Burst is fully contained underground - no local fallout'
+                  : 'Fireball does not reach the ground at this burst height - no local fallout'}
+              </p>
+            )}
+          </div>
+        )}
+        
+        {/* Fallout Dose Query - click a point to estimate the dose for a stay there */}
+        {weaponData && (
+          <div className="mb-3">
+            <div className="flex items-center justify-between mb-2">
+              <p className="text-xs font-semibold">Fallout Dose Query:</p>
+              <button
+                onClick={() => setMapTool(mapTool === 'dose' ? 'move' : 'dose')}
+                className={`px-2 py-0.5 text-xs rounded transition-colors ${
+                  mapTool === 'dose' ? 'bg-lime-600 text-white' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+              >
+                {mapTool === 'dose' ? 'Querying - click map' : 'Query a point'}
+              </button>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-400">Arrive (H+ hours)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={doseWindow.arrival}
+                  onChange={(e) => setDoseWindow({ ...doseWindow, arrival: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="px-2 py-1 bg-gray-800 border border-gray-700 rounded"
+                />
+              </label>
+              <label className="flex flex-col gap-1">
+                <span className="text-gray-400">Leave (H+ hours)</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  value={doseWindow.departure}
+                  onChange={(e) => setDoseWindow({ ...doseWindow, departure: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  className="px-2 py-1 bg-gray-800 border border-gray-700 rounded"
+                />
+              </label>
+              <label className="flex flex-col gap-1 col-span-2">
+                <span className="text-gray-400">Protection factor</span>
+                <select
+                  value={protectionFactor}
+                  onChange={(e) => setProtectionFactor(parseFloat(e.target.value))}
+                  className="px-2 py-1 bg-gray-800 border border-gray-700 rounded"
+                >
+                  {FALLOUT_PROTECTION_FACTORS.map(pf => (
+                    <option key={pf.value} value={pf.value}>{pf.label} (PF {pf.value})</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {doseQueryResult ? (
+              <div className="mt-2 p-2 bg-gray-800 rounded text-xs space-y-0.5">
+                <p>Distance from ground zero: {(doseQueryResult.distance / 1000).toFixed(1)} km</p>
+                <p>Dose rate at H+1: {doseQueryResult.doseRateH1.toFixed(doseQueryResult.doseRateH1 >= 10 ? 0 : 2)} rad/hr</p>
+                <p>Fallout arrives: H+{doseQueryResult.falloutArrival.toFixed(1)}</p>
+                <p className="font-semibold text-lime-400">Total dose: {formatDose(doseQueryResult.dose)}</p>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-400 mt-1">Turn on the query tool and click the map to pick a location</p>
+            )}
+          </div>
+        )}
         
         <div className="space-y-1.5 text-xs">
           <h3 className="font-semibold text-sm mt-2 mb-1">Active Zones:</h3>
@@ -717,156 +1573,21 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
           
           {/* Group zones by category for display */}
           {selectedCategory === 'all' ? (
-            <>
-              {/* Blast Effects */}
-              <h4 className="font-medium text-xs mt-2 mb-1 text-orange-400">Blast Effects</h4>
-              {blastZones.filter(z => z.category === 'blast').map((zone) => {
-                const index = blastZones.findIndex(z => z === zone);
-                return (
-                  <div 
-                    key={index} 
-                    className={`flex items-start p-1 rounded transition-colors cursor-pointer ${
-                      hoveredZoneIndex === index ? 'bg-gray-800' : ''
-                    } ${!activeZones.has(index) ? 'opacity-50' : ''}`}
-                    onMouseEnter={() => setHoveredZoneIndex(index)}
-                    onMouseLeave={() => setHoveredZoneIndex(null)}
-                    onClick={() => toggleZone(index)}
-                  >
-                    <input
-                      type="checkbox"
-                      checked={activeZones.has(index)}
-                      onChange={() => toggleZone(index)}
-                      className="mr-2 mt-0.5"
-                      onClick={(e) => e.stopPropagation()}
-                    />
-                    <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 mt-0.5 flex-shrink-0" style={{ backgroundColor: zone.color }} />
-                    <div className="flex-1">
-                      <p className="font-medium">{zone.name}: {(zone.radius / 1000).toFixed(1)} km</p>
-                      <p className="text-gray-300 text-xs">{zone.description}</p>
-                    </div>
-                  </div>
-                );
-              })}
-              
-              {/* Thermal Effects */}
-              <h4 className="font-medium text-xs mt-3 mb-1 text-cyan-400">Thermal Effects</h4>
-              {blastZones.filter(z => z.category === 'thermal').map((zone) => {
-                const index = blastZones.findIndex(z => z === zone);
-                return (
-                  <div 
-                    key={index} 
-                    className={`flex items-start p-1 rounded transition-colors cursor-pointer ${
-                      hoveredZoneIndex === index ? 'bg-gray-800' : ''
-                    } ${!activeZones.has(index) ? 'opacity-50' : ''}`}
-                    onMouseEnter={() => setHoveredZoneIndex(index)}
-                    onMouseLeave={() => setHoveredZoneIndex(null)}
-                    onClick={() => toggleZone(index)}
-                  >
-                    <input
-                      type="checkbox"
-                      checked={activeZones.has(index)}
-                      onChange={() => toggleZone(index)}
-                      className="mr-2 mt-0.5"
-                      onClick={(e) => e.stopPropagation()}
-                    />
-                    <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 mt-0.5 flex-shrink-0" style={{ backgroundColor: zone.color }} />
-                    <div className="flex-1">
-                      <p className="font-medium">{zone.name}: {(zone.radius / 1000).toFixed(1)} km</p>
-                      <p className="text-gray-300 text-xs">{zone.description}</p>
-                    </div>
-                  </div>
-                );
-              })}
-              
-              {/* Radiation Effects */}
-              <h4 className="font-medium text-xs mt-3 mb-1 text-purple-400">Radiation Effects</h4>
-              {blastZones.filter(z => z.category === 'radiation').map((zone) => {
-                const index = blastZones.findIndex(z => z === zone);
-                return (
-                  <div 
-                    key={index} 
-                    className={`flex items-start p-1 rounded transition-colors cursor-pointer ${
-                      hoveredZoneIndex === index ? 'bg-gray-800' : ''
-                    } ${!activeZones.has(index) ? 'opacity-50' : ''}`}
-                    onMouseEnter={() => setHoveredZoneIndex(index)}
-                    onMouseLeave={() => setHoveredZoneIndex(null)}
-                    onClick={() => toggleZone(index)}
-                  >
-                    <input
-                      type="checkbox"
-                      checked={activeZones.has(index)}
-                      onChange={() => toggleZone(index)}
-                      className="mr-2 mt-0.5"
-                      onClick={(e) => e.stopPropagation()}
-                    />
-                    <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 mt-0.5 flex-shrink-0" style={{ backgroundColor: zone.color }} />
-                    <div className="flex-1">
-                      <p className="font-medium">{zone.name}: {(zone.radius / 1000).toFixed(1)} km</p>
-                      <p className="text-gray-300 text-xs">{zone.description}</p>
-                    </div>
-                  </div>
-                );
-              })}
-              
-              {/* Infrastructure Effects */}
-              <h4 className="font-medium text-xs mt-3 mb-1 text-blue-400">Infrastructure</h4>
-              {blastZones.filter(z => z.category === 'infrastructure').map((zone) => {
-                const index = blastZones.findIndex(z => z === zone);
-                return (
-                  <div 
-                    key={index} 
-                    className={`flex items-start p-1 rounded transition-colors cursor-pointer ${
-                      hoveredZoneIndex === index ? 'bg-gray-800' : ''
-                    } ${!activeZones.has(index) ? 'opacity-50' : ''}`}
-                    onMouseEnter={() => setHoveredZoneIndex(index)}
-                    onMouseLeave={() => setHoveredZoneIndex(null)}
-                    onClick={() => toggleZone(index)}
-                  >
-                    <input
-                      type="checkbox"
-                      checked={activeZones.has(index)}
-                      onChange={() => toggleZone(index)}
-                      className="mr-2 mt-0.5"
-                      onClick={(e) => e.stopPropagation()}
-                    />
-                    <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 mt-0.5 flex-shrink-0" style={{ backgroundColor: zone.color }} />
-                    <div className="flex-1">
-                      <p className="font-medium">{zone.name}: {(zone.radius / 1000).toFixed(1)} km</p>
-                      <p className="text-gray-300 text-xs">{zone.description}</p>
-                    </div>
-                  </div>
-                );
-              })}
-            </>
-          ) : (
-            /* Show only filtered category */
-            blastZones.filter(z => z.category === selectedCategory).map((zone) => {
-              const index = blastZones.findIndex(z => z === zone);
+            ZONE_CATEGORIES.map((category, categoryIndex) => {
+              const zones = blastZones.filter(z => z.category === category.id);
+              if (zones.length === 0) return null;
               return (
-                <div 
-                  key={index} 
-                  className={`flex items-start p-1 rounded transition-colors cursor-pointer ${
-                    hoveredZoneIndex === index ? 'bg-gray-800' : ''
-                  } ${!activeZones.has(index) ? 'opacity-50' : ''}`}
-                  onMouseEnter={() => setHoveredZoneIndex(index)}
-                  onMouseLeave={() => setHoveredZoneIndex(null)}
-                  onClick={() => toggleZone(index)}
-                >
-                  <input
-                    type="checkbox"
-                    checked={activeZones.has(index)}
-                    onChange={() => toggleZone(index)}
-                    className="mr-2 mt-0.5"
-                    onClick={(e) => e.stopPropagation()}
-                  />
-                  <span className="inline-block w-2.5 h-2.5 rounded-full mr-2 mt-0.5 flex-shrink-0" style={{ backgroundColor: zone.color }} />
-                  <div className="flex-1">
-                    <p className="font-medium">{zone.name}: {(zone.radius / 1000).toFixed(1)} km</p>
-                    <p className="text-gray-300 text-xs">{zone.description}</p>
-                  </div>
+                <div key={category.id}>
+                  <h4 className={`font-medium text-xs ${categoryIndex === 0 ? 'mt-2' : 'mt-3'} mb-1 ${category.className}`}>
+                    {category.label}
+                  </h4>
+                  {zones.map(renderZoneToggle)}
                 </div>
               );
             })
+          ) : (
+            /* Show only filtered category */
+            blastZones.filter(z => z.category === selectedCategory).map(renderZoneToggle)
           )}
         </div>
         
@@ -943,11 +1664,19 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
                   </svg>
                 </button>
               </div>
-              <div className="p-4">
+              <div className="p-4 space-y-4">
                 <CasualtyEstimates 
                   casualtyData={casualtyData} 
                   isLoading={!casualtyData || isCalculatingCasualties}
                   usingRealData={casualtyData?.usingRealData}
+                  buildingDamage={buildingDamage}
+                  medicalCapacity={medicalCapacity}
+                  longTermHealth={longTermHealth}
+                />
+                <EconomicLossPanel
+                  buildingLoss={buildingLoss}
+                  infrastructure={infrastructureDamage}
+                  isLoading={isCalculatingCasualties}
                 />
               </div>
             </div>
@@ -957,11 +1686,19 @@ export default function BlastMap({ lat, lng, radius, bombName, cityName, weaponD
       
       {/* Desktop Casualty Panel - Positioned on the right */}
       {weaponData && showCasualties && (
-        <div className="hidden sm:block absolute top-16 right-4 w-80 z-[999]">
+        <div className="hidden sm:block absolute top-16 right-4 w-80 z-[999] space-y-3 max-h-[calc(100vh-5rem)] overflow-y-auto">
           <CasualtyEstimates 
             casualtyData={casualtyData} 
             isLoading={!casualtyData || isCalculatingCasualties}
             usingRealData={casualtyData?.usingRealData}
+            buildingDamage={buildingDamage}
+            medicalCapacity={medicalCapacity}
+            longTermHealth={longTermHealth}
+          />
+          <EconomicLossPanel
+            buildingLoss={buildingLoss}
+            infrastructure={infrastructureDamage}
+            isLoading={isCalculatingCasualties}
           />
         </div>
       )}
@@ -2,15 +2,37 @@
 
 import React from 'react';
 import { CasualtyData, formatCasualties } from '@/data/populationCalculations';
-import { AlertTriangle, Users, Activity, Building2 } from 'lucide-react';
+import { BuildingDamage, CONSTRUCTION_TYPES, CONSTRUCTION_TYPE_ORDER } from '@/data/buildingDamage';
+import { MedicalCapacity, SURGE_BED_SHARE } from '@/data/medicalCapacity';
+import { LongTermHealth, DOSE_BANDS } from '@/data/longTermHealth';
+import { describeDemographics } from '@/data/demographics';
+import type { PopulationBasis } from '@/data/populationDataSources';
+import { AlertTriangle, Users, Activity, Building2, Home, Radiation } from 'lucide-react';
+
+// Header wording for each kind of population grid
+const POPULATION_BASIS_DESCRIPTIONS: Record<PopulationBasis, string> = {
+  census: 'gridded census population data',
+  buildings: 'population estimated from mapped buildings',
+  synthetic: 'a synthetic density pattern, not real population data,',
+};
 
 interface CasualtyEstimatesProps {
   casualtyData: CasualtyData | null;
   isLoading?: boolean;
   usingRealData?: boolean;
+  buildingDamage?: BuildingDamage | null;
+  medicalCapacity?: MedicalCapacity | null;
+  longTermHealth?: LongTermHealth | null;
 }
 
-export default function CasualtyEstimates({ casualtyData, isLoading, usingRealData }: CasualtyEstimatesProps) {
+export default function CasualtyEstimates({
+  casualtyData,
+  isLoading,
+  usingRealData,
+  buildingDamage,
+  medicalCapacity,
+  longTermHealth,
+}: CasualtyEstimatesProps) {
   if (isLoading) {
     return (
       <div className="bg-gray-900/90 backdrop-blur-sm rounded-lg p-4 shadow-xl border border-gray-800">
@@ -27,7 +49,7 @@ export default function CasualtyEstimates({ casualtyData, isLoading, usingRealDa
 
   if (!casualtyData) return null;
 
-  const { totals, medicalBurden } = casualtyData;
+  const { totals, medicalBurden, uncertainty, populationSource } = casualtyData;
 
   return (
     <div className="bg-gray-900/90 backdrop-blur-sm rounded-lg shadow-xl border border-gray-800 overflow-hidden">
@@ -37,15 +59,25 @@ export default function CasualtyEstimates({ casualtyData, isLoading, usingRealDa
           Casualty Estimates
         </h3>
         <p className="text-xs text-gray-400 mt-1">
-          Based on {usingRealData ? 'real-time population data' : 'population density estimates'} and blast effects
+          Based on {populationSource && usingRealData
+            ? POPULATION_BASIS_DESCRIPTIONS[populationSource.basis]
+            : 'population density estimates'} and blast effects
         </p>
-        {usingRealData && (
-          <p className="text-xs text-green-400 mt-1 flex items-center gap-1">
-            <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
-              <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-            </svg>
-            Using OpenStreetMap building data
-          </p>
+        {usingRealData && populationSource && (
+          populationSource.basis === 'synthetic' ? (
+            <p className="text-xs text-yellow-400 mt-1 flex items-center gap-1">
+              <AlertTriangle className="w-3 h-3 shrink-0" />
+              No population data for this area: {populationSource.name} ({Math.round(populationSource.confidence * 100)}% confidence
+              {populationSource.seed !== undefined ? `, seed ${populationSource.seed}` : ''})
+            </p>
+          ) : (
+            <p className="text-xs text-green-400 mt-1 flex items-center gap-1">
+              <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+              </svg>
+              Using {populationSource.name} ({Math.round(populationSource.confidence * 100)}% confidence)
+            </p>
+          )
         )}
       </div>
 
@@ -60,6 +92,11 @@ export default function CasualtyEstimates({ casualtyData, isLoading, usingRealDa
             <div className="text-2xl font-bold text-red-500">
               {formatCasualties(totals.fatalities)}
             </div>
+            {uncertainty && (
+              <div className="text-xs text-red-300/80 mt-1">
+                90% range: {formatCasualties(uncertainty.fatalities.p5)} – {formatCasualties(uncertainty.fatalities.p95)}
+              </div>
+            )}
           </div>
 
           <div className="bg-orange-950/50 rounded-lg p-3 border border-orange-900/50">
@@ -70,6 +107,11 @@ export default function CasualtyEstimates({ casualtyData, isLoading, usingRealDa
             <div className="text-2xl font-bold text-orange-500">
               {formatCasualties(totals.injuries)}
             </div>
+            {uncertainty && (
+              <div className="text-xs text-orange-300/80 mt-1">
+                90% range: {formatCasualties(uncertainty.injuries.p5)} – {formatCasualties(uncertainty.injuries.p95)}
+              </div>
+            )}
           </div>
         </div>
 
@@ -105,8 +147,137 @@ export default function CasualtyEstimates({ casualtyData, isLoading, usingRealDa
               </span>
             </div>
           </div>
+
+          {medicalCapacity && (
+            <div className="mt-3 pt-2 border-t border-gray-700">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="text-gray-500">
+                    <th className="text-left font-normal">Capacity</th>
+                    <th className="text-right font-normal">Need</th>
+                    <th className="text-right font-normal">Available</th>
+                    <th className="text-right font-normal">Shortfall</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {medicalCapacity.shortfalls.map(row => (
+                    <tr key={row.label} className="text-gray-400">
+                      <td>{row.label}</td>
+                      <td className="text-right text-gray-300">{formatCasualties(row.demand)}</td>
+                      {row.capacity === null || row.shortfall === null ? (
+                        <td colSpan={2} className="text-right text-gray-500 italic">No data</td>
+                      ) : (
+                        <>
+                          <td className="text-right text-gray-300">{formatCasualties(row.capacity)}</td>
+                          <td className={`text-right font-medium ${row.shortfall > 0 ? 'text-red-400' : 'text-green-400'}`}>
+                            {formatCasualties(row.shortfall)}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-500 mt-2">
+                {medicalCapacity.hospitals.length} hospitals from {medicalCapacity.source === 'osm' ? 'OpenStreetMap' : 'the local hospital list'}:{' '}
+                {medicalCapacity.statusCounts.destroyed} destroyed, {medicalCapacity.statusCounts.damaged} damaged.
+                Available beds assume {Math.round(SURGE_BED_SHARE * 100)}% can be cleared for casualties.
+                {medicalCapacity.shortfalls.some(row => row.capacity === null)
+                  ? ' None of these hospitals report burn unit beds.'
+                  : ''}
+              </p>
+            </div>
+          )}
         </div>
 
+        {/* Building Damage */}
+        {buildingDamage && buildingDamage.totalBuildings > 0 && (
+          <div className="bg-gray-800/50 rounded-lg p-3 border border-gray-700">
+            <div className="flex items-center gap-2 mb-2">
+              <Home className="w-4 h-4 text-amber-400" />
+              <span className="text-sm font-medium text-gray-300">Building Damage</span>
+            </div>
+            <div className="space-y-1 text-xs">
+              <div className="flex justify-between text-gray-400">
+                <span>Buildings destroyed:</span>
+                <span className="text-gray-300 font-medium">
+                  {formatCasualties(buildingDamage.destroyed)} of {formatCasualties(buildingDamage.totalBuildings)}
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Moderately damaged:</span>
+                <span className="text-gray-300 font-medium">
+                  {formatCasualties(buildingDamage.damage.moderate)}
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Lightly damaged:</span>
+                <span className="text-gray-300 font-medium">
+                  {formatCasualties(buildingDamage.damage.light)}
+                </span>
+              </div>
+              {CONSTRUCTION_TYPE_ORDER
+                .filter(type => buildingDamage.byConstruction[type].buildings > 0)
+                .map((type, index) => (
+                  <div key={type} className={`flex justify-between text-gray-500 ${index === 0 ? 'pt-1 border-t border-gray-700' : ''}`}>
+                    <span>{CONSTRUCTION_TYPES[type].label} destroyed:</span>
+                    <span>
+                      {formatCasualties(buildingDamage.byConstruction[type].destroyed)} of {formatCasualties(buildingDamage.byConstruction[type].buildings)}
+                    </span>
+                  </div>
+                ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Destroyed means severe damage or collapse. Construction types come from OpenStreetMap tags.
+            </p>
+          </div>
+        )}
+
+        {/* Long-term Health */}
+        {longTermHealth && (
+          <div className="bg-gray-800/50 rounded-lg p-3 border border-gray-700">
+            <div className="flex items-center gap-2 mb-2">
+              <Radiation className="w-4 h-4 text-lime-400" />
+              <span className="text-sm font-medium text-gray-300">Long-term Health</span>
+            </div>
+            <div className="space-y-1 text-xs">
+              <div className="flex justify-between text-gray-400">
+                <span>Excess cancer deaths:</span>
+                <span className="text-gray-300 font-medium">
+                  {formatCasualties(Math.round(longTermHealth.excessCancerDeaths))}
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Excess cancers:</span>
+                <span className="text-gray-300 font-medium">
+                  {formatCasualties(Math.round(longTermHealth.excessCancers))}
+                </span>
+              </div>
+              <div className="flex justify-between text-gray-400">
+                <span>Survivors with 1 rem or more:</span>
+                <span className="text-gray-300 font-medium">
+                  {formatCasualties(Math.round(longTermHealth.survivorsExposed))}
+                </span>
+              </div>
+              {DOSE_BANDS.slice(1).map((band, index) => (
+                <div
+                  key={band.label}
+                  className={`flex justify-between text-gray-500 ${index === 0 ? 'pt-1 border-t border-gray-700' : ''}`}
+                >
+                  <span>{band.label}:</span>
+                  <span>{formatCasualties(Math.round(longTermHealth.doseBands[index + 1]))}</span>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+              Lifetime projection from prompt radiation{longTermHealth.falloutIncluded ? ' and the first week of fallout' : ''},
+              linear no-threshold at {longTermHealth.coefficients.incidencePerSv} cancers and{' '}
+              {longTermHealth.coefficients.mortalityPerSv} deaths per sievert. Survivors above the top band
+              are likely to die of radiation sickness and are not projected.
+            </p>
+          </div>
+        )}
+
         {/* Breakdown by Zone */}
         <details className="bg-gray-800/50 rounded-lg border border-gray-700">
           <summary className="p-3 cursor-pointer hover:bg-gray-800/70 transition-colors">
@@ -115,8 +286,8 @@ export default function CasualtyEstimates({ casualtyData, isLoading, usingRealDa
           <div className="p-3 pt-0 space-y-2 max-h-64 overflow-y-auto">
             {casualtyData.estimates
               .filter(est => est.fatalities > 0 || est.injuries.severe > 0)
-              .map((estimate, index) => (
-                <div key={index} className="text-xs border-b border-gray-700 pb-2 last:border-0">
+              .map(estimate => (
+                <div key={estimate.zone} className="text-xs border-b border-gray-700 pb-2 last:border-0">
                   <div className="font-medium text-gray-300 mb-1">{estimate.zone}</div>
                   <div className="grid grid-cols-2 gap-2 text-gray-400">
                     <div>
@@ -135,10 +306,57 @@ export default function CasualtyEstimates({ casualtyData, isLoading, usingRealDa
           </div>
         </details>
 
+        {/* Breakdown by Age */}
+        <details className="bg-gray-800/50 rounded-lg border border-gray-700">
+          <summary className="p-3 cursor-pointer hover:bg-gray-800/70 transition-colors">
+            <span className="text-sm font-medium text-gray-300">By Age</span>
+          </summary>
+          <div className="p-3 pt-0">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-normal">Age</th>
+                  <th className="text-right font-normal">Deaths</th>
+                  <th className="text-right font-normal">Injuries</th>
+                  <th className="text-right font-normal">Fatality rate</th>
+                </tr>
+              </thead>
+              <tbody>
+                {casualtyData.byAge.map(age => (
+                  <tr key={age.bracket} className="text-gray-400">
+                    <td>{age.label}</td>
+                    <td className="text-right text-red-400">{formatCasualties(age.fatalities)}</td>
+                    <td className="text-right text-orange-400">
+                      {formatCasualties(age.injuries.severe + age.injuries.moderate + age.injuries.light)}
+                    </td>
+                    <td className="text-right text-gray-300">
+                      {age.populationAffected > 0
+                        ? `${(age.fatalities / age.populationAffected * 100).toFixed(1)}%`
+                        : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-2">
+              {describeDemographics(casualtyData.demographics)}. Children and the elderly are more
+              vulnerable to burns, blast and radiation.
+            </p>
+          </div>
+        </details>
+
+        {uncertainty && (
+          <div className="text-xs text-gray-400">
+            Ranges are the 5th–95th percentiles of {uncertainty.runs} runs sampling yield, effect scaling, lethality,
+            population density and the share of people caught outdoors (median fatalities {formatCasualties(uncertainty.fatalities.median)}, seed {uncertainty.seed}).
+          </div>
+        )}
+
         {/* Disclaimer */}
         <div className="text-xs text-gray-500 italic">
-          * Estimates based on location-aware population density models and historical data. Actual casualties 
-          would vary based on time of day, building construction, warning time, and shelter availability.
+          * Estimates based on location-aware population density models and historical data, for the chosen
+          scenario time, warning time and shelter posture. Actual casualties would vary with building construction
+          and the shelter actually available.
         </div>
       </div>
     </div>
@@ -0,0 +1,114 @@
+'use client';
+
+import React from 'react';
+import {
+  BuildingLoss,
+  InfrastructureDamage,
+  PSI_RINGS,
+  INFRASTRUCTURE_TYPES,
+  INFRASTRUCTURE_TYPE_ORDER,
+  formatCurrency,
+} from '@/data/economicLoss';
+import { DollarSign, Zap } from 'lucide-react';
+
+interface EconomicLossPanelProps {
+  buildingLoss: BuildingLoss | null;
+  infrastructure: InfrastructureDamage | null;
+  isLoading?: boolean;
+}
+
+export default function EconomicLossPanel({ buildingLoss, infrastructure, isLoading }: EconomicLossPanelProps) {
+  if (isLoading) {
+    return (
+      <div className="bg-gray-900/90 backdrop-blur-sm rounded-lg p-4 shadow-xl border border-gray-800">
+        <div className="flex items-center gap-3">
+          <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-white"></div>
+          <div>
+            <div className="text-sm font-medium text-white">Estimating losses...</div>
+            <div className="text-xs text-gray-400">Analyzing buildings and infrastructure</div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!buildingLoss && !infrastructure) return null;
+
+  return (
+    <div className="bg-gray-900/90 backdrop-blur-sm rounded-lg shadow-xl border border-gray-800 overflow-hidden">
+      <div className="p-4 border-b border-gray-700">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <DollarSign className="w-5 h-5 text-emerald-500" />
+          Economic Loss
+        </h3>
+        <p className="text-xs text-gray-400 mt-1">
+          Building repair and replacement cost, and infrastructure in each overpressure ring
+        </p>
+      </div>
+
+      <div className="p-4 space-y-4">
+        {buildingLoss && (
+          <div className="bg-emerald-950/50 rounded-lg p-3 border border-emerald-900/50">
+            <div className="text-xs text-emerald-400 mb-1">Building losses</div>
+            <div className="text-2xl font-bold text-emerald-500">
+              {formatCurrency(buildingLoss.loss)}
+            </div>
+            <div className="text-xs text-emerald-300/80 mt-1">
+              of {formatCurrency(buildingLoss.replacementValue)} replacement value
+              {buildingLoss.floorAreaSource === 'estimated' ? ' (floor area estimated from population)' : ''}
+            </div>
+            <div className="space-y-1 text-xs mt-2 pt-2 border-t border-emerald-900/50">
+              {PSI_RINGS.map(({ ring, label }) => (
+                <div key={ring} className="flex justify-between text-gray-400">
+                  <span>{label}:</span>
+                  <span className="text-gray-300 font-medium">{formatCurrency(buildingLoss.lossByRing[ring])}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {infrastructure && (
+          <div className="bg-gray-800/50 rounded-lg p-3 border border-gray-700">
+            <div className="flex items-center gap-2 mb-2">
+              <Zap className="w-4 h-4 text-yellow-400" />
+              <span className="text-sm font-medium text-gray-300">Infrastructure Destroyed</span>
+            </div>
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-gray-500">
+                  <th className="text-left font-normal"></th>
+                  {PSI_RINGS.map(({ ring, label }) => (
+                    <th key={ring} className="text-right font-normal">{label.replace(' psi', '')}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {INFRASTRUCTURE_TYPE_ORDER.map(type => (
+                  <tr key={type} className="text-gray-400">
+                    <td>{INFRASTRUCTURE_TYPES[type].label}</td>
+                    {PSI_RINGS.map(({ ring }) => {
+                      const { total, destroyed } = infrastructure.counts[type][ring];
+                      return (
+                        <td key={ring} className="text-right text-gray-300">
+                          {total > 0 ? `${destroyed}/${total}` : '-'}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-2">
+              Destroyed / total in each psi ring, from OpenStreetMap.
+            </p>
+          </div>
+        )}
+
+        <div className="text-xs text-gray-500 italic">
+          * Replacement costs use typical US construction prices and exclude contents, land and business interruption.
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildingDamageAt,
+  calculateBuildingDamage,
+  ConstructionType,
+  CONSTRUCTION_TYPE_ORDER,
+  DAMAGE_STATES,
+  DamageState,
+  damageStateAt,
+} from './buildingDamage';
+import { effectsAtRangeFromBlastEffects } from './effectsAtRange';
+import type { PopulationGrid } from './populationDataSources';
+import { testCenter as center, tiedBlastEffects as blastEffects } from '@/test/fixtures';
+
+// 10 km square of 100 cells a side, with a different mix of construction in each cell
+const buildingGrid = (): PopulationGrid => {
+  const size = 100;
+  const halfLat = 5 / 111;
+  const halfLng = 5 / (111 * Math.cos(center.lat * Math.PI / 180));
+  const layer = (offset: number) => Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) => (row * 7 + col * 3 + offset) % 4));
+  return {
+    bounds: { north: center.lat + halfLat, south: center.lat - halfLat, east: center.lng + halfLng, west: center.lng - halfLng },
+    resolution: 100,
+    data: layer(0),
+    buildings: Object.fromEntries(CONSTRUCTION_TYPE_ORDER.map((type, i) => [type, layer(i)])) as Record<ConstructionType, number[][]>,
+  };
+};
+
+describe('calculateBuildingDamage', () => {
+  it('agrees with the damage state of each building', () => {
+    const grid = buildingGrid();
+    const damage = calculateBuildingDamage(blastEffects, grid, center)!;
+    const totals = { light: 0, moderate: 0, severe: 0, collapsed: 0 };
+    const cellLat = (grid.bounds.north - grid.bounds.south) / damage.rows;
+    const cellLng = (grid.bounds.east - grid.bounds.west) / damage.cols;
+
+    for (let row = 0; row < damage.rows; row++) {
+      for (let col = 0; col < damage.cols; col++) {
+        const point = { lat: grid.bounds.south + (row + 0.5) * cellLat, lng: grid.bounds.west + (col + 0.5) * cellLng };
+        // The flat projection the model uses over the grid
+        const distanceKm = Math.hypot(
+          (point.lat - center.lat) * 111,
+          (point.lng - center.lng) * 111 * Math.cos(center.lat * Math.PI / 180)
+        );
+        const { overpressure } = effectsAtRangeFromBlastEffects(blastEffects, distanceKm);
+        let worst: DamageState | null = null;
+        let buildings = 0;
+        CONSTRUCTION_TYPE_ORDER.forEach(type => {
+          const count = grid.buildings![type][row][col];
+          buildings += count;
+          const state = count > 0 ? damageStateAt(type, overpressure) : null;
+          if (!state) return;
+          totals[state] += count;
+          if (!worst || DAMAGE_STATES.indexOf(state) > DAMAGE_STATES.indexOf(worst)) worst = state;
+        });
+        expect(buildingDamageAt(damage, point)).toEqual({ buildings, worstState: worst });
+      }
+    }
+
+    expect(damage.damage).toEqual(totals);
+    expect(damage.destroyed).toBe(totals.severe + totals.collapsed);
+    expect(damage.damage.collapsed).toBeGreaterThan(0);
+  });
+
+  it('needs building data', () => {
+    const grid = { ...buildingGrid(), buildings: undefined };
+    expect(calculateBuildingDamage(blastEffects, grid, center)).toBeNull();
+  });
+
+  it('has no cell outside the grid', () => {
+    const damage = calculateBuildingDamage(blastEffects, buildingGrid(), center)!;
+    expect(buildingDamageAt(damage, { lat: center.lat + 1, lng: center.lng })).toBeNull();
+  });
+});
@@ -0,0 +1,159 @@
+import { NuclearWeapon } from './nuclearWeapons';
+import { effectsAtRangeFromBlastEffects } from './effectsAtRange';
+import type { PopulationGrid } from './populationDataSources';
+
+// Building damage from peak overpressure by construction type
+// Buildings from the OSM fetch are sorted into four construction classes, each with
+// overpressure thresholds for increasingly severe damage
+
+export type ConstructionType = 'wood-frame' | 'masonry' | 'reinforced-concrete' | 'steel-frame';
+
+export type DamageState = 'light' | 'moderate' | 'severe' | 'collapsed';
+
+// Least to most serious
+export const DAMAGE_STATES: DamageState[] = ['light', 'moderate', 'severe', 'collapsed'];
+
+export const DAMAGE_STATE_INFO: Record<DamageState, { label: string; color: string }> = {
+  light: { label: 'Light - windows and doors blown in', color: '#FDE047' },
+  moderate: { label: 'Moderate - walls cracked, roof damaged', color: '#FB923C' },
+  severe: { label: 'Severe - beyond economic repair', color: '#DC2626' },
+  collapsed: { label: 'Collapsed', color: '#7F1D1D' },
+};
+
+// Overpressure (psi) at which each damage state is reached, approximating the damage
+// criteria of Glasstone & Dolan Table 5.139 and Fig. 5.140 for long-duration blast waves
+export const CONSTRUCTION_TYPES: Record<ConstructionType, { label: string; thresholds: Record<DamageState, number> }> = {
+  'wood-frame': {
+    label: 'Wood frame',
+    thresholds: { light: 1, moderate: 2, severe: 3, collapsed: 5 },
+  },
+  'masonry': {
+    label: 'Masonry',
+    thresholds: { light: 1, moderate: 2.5, severe: 4, collapsed: 6 },
+  },
+  'reinforced-concrete': {
+    label: 'Reinforced concrete',
+    thresholds: { light: 2, moderate: 6, severe: 10, collapsed: 15 },
+  },
+  'steel-frame': {
+    label: 'Steel frame',
+    thresholds: { light: 1.5, moderate: 4, severe: 8, collapsed: 12 },
+  },
+};
+
+export const CONSTRUCTION_TYPE_ORDER = Object.keys(CONSTRUCTION_TYPES) as ConstructionType[];
+
+// Construction class for an OSM building, using building:material when mapped and
+// otherwise guessing from the building type and height
+export const constructionTypeForBuilding = (buildingType: string, levels: number, material?: string): ConstructionType => {
+  if (material === 'wood' || material === 'timber_framing') return 'wood-frame';
+  if (material === 'brick' || material === 'stone' || material === 'masonry' || material === 'sandstone') return 'masonry';
+  if (material === 'concrete' || material === 'reinforced_concrete') return 'reinforced-concrete';
+  if (material === 'steel' || material === 'metal' || material === 'glass') return 'steel-frame';
+
+  if (['house', 'detached', 'cabin', 'shed', 'garage', 'bungalow', 'hut'].includes(buildingType)) return 'wood-frame';
+  if (levels >= 8 && ['commercial', 'office', 'retail'].includes(buildingType)) return 'steel-frame';
+  if (levels >= 4 || ['hospital', 'school', 'university'].includes(buildingType)) return 'reinforced-concrete';
+  if (['industrial', 'warehouse'].includes(buildingType)) return 'steel-frame';
+  return 'masonry';
+};
+
+// Damage state of a building at the given overpressure, or null if undamaged
+export const damageStateAt = (constructionType: ConstructionType, overpressure: number): DamageState | null => {
+  const { thresholds } = CONSTRUCTION_TYPES[constructionType];
+  const reached = DAMAGE_STATES.filter(level => overpressure >= thresholds[level]);
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+};
+
+export interface BuildingDamage {
+  bounds: PopulationGrid['bounds'];
+  rows: number;
+  cols: number;
+  // Worst damage state per grid cell, row-major from the south edge: 0 where no building is
+  // damaged, otherwise the index in DAMAGE_STATES plus one
+  worstStates: Uint8Array;
+  cellBuildings: Uint32Array; // buildings per grid cell, in the same order
+  totalBuildings: number; // all buildings in the grid
+  damage: Record<DamageState, number>;
+  byConstruction: Record<ConstructionType, { buildings: number; destroyed: number }>;
+  destroyed: number; // severe or collapsed, beyond economic repair
+}
+
+// Buildings and worst damage state in the grid cell containing a point, or null outside the grid
+export const buildingDamageAt = (
+  buildingDamage: BuildingDamage,
+  point: { lat: number; lng: number }
+): { buildings: number; worstState: DamageState | null } | null => {
+  const { bounds, rows, cols, worstStates, cellBuildings } = buildingDamage;
+  const row = Math.floor((point.lat - bounds.south) / (bounds.north - bounds.south) * rows);
+  const col = Math.floor((point.lng - bounds.west) / (bounds.east - bounds.west) * cols);
+  if (row < 0 || row >= rows || col < 0 || col >= cols) return null;
+  const worst = worstStates[row * cols + col];
+  return { buildings: cellBuildings[row * cols + col], worstState: worst === 0 ? null : DAMAGE_STATES[worst - 1] };
+};
+
+// Damage to every building in the population grid, or null when the grid has no building data
+export const calculateBuildingDamage = (
+  blastEffects: NuclearWeapon['blastEffects'],
+  populationGrid: PopulationGrid | null | undefined,
+  center: { lat: number; lng: number }
+): BuildingDamage | null => {
+  const buildings = populationGrid?.buildings;
+  if (!populationGrid || !buildings) return null;
+
+  const { bounds } = populationGrid;
+  const rows = buildings[CONSTRUCTION_TYPE_ORDER[0]].length;
+  const cols = buildings[CONSTRUCTION_TYPE_ORDER[0]][0]?.length || 0;
+  const cellLatSize = (bounds.north - bounds.south) / rows;
+  const cellLngSize = (bounds.east - bounds.west) / cols;
+  const metersPerDegreeLng = 111000 * Math.cos(center.lat * Math.PI / 180);
+
+  const damage: Record<DamageState, number> = { light: 0, moderate: 0, severe: 0, collapsed: 0 };
+  const byConstruction = Object.fromEntries(
+    CONSTRUCTION_TYPE_ORDER.map(type => [type, { buildings: 0, destroyed: 0 }])
+  ) as BuildingDamage['byConstruction'];
+  const worstStates = new Uint8Array(rows * cols);
+  const cellBuildings = new Uint32Array(rows * cols);
+  let totalBuildings = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const count = CONSTRUCTION_TYPE_ORDER.reduce((sum, type) => sum + buildings[type][row][col], 0);
+      if (count === 0) continue;
+      totalBuildings += count;
+      cellBuildings[row * cols + col] = count;
+
+      // Grid spans a few tens of km, so a flat projection is accurate enough
+      const distance = Math.hypot(
+        (bounds.south + (row + 0.5) * cellLatSize - center.lat) * 111000,
+        (bounds.west + (col + 0.5) * cellLngSize - center.lng) * metersPerDegreeLng
+      );
+      const { overpressure } = effectsAtRangeFromBlastEffects(blastEffects, distance / 1000);
+
+      let worst = 0;
+      CONSTRUCTION_TYPE_ORDER.forEach(type => {
+        const typeCount = buildings[type][row][col];
+        if (typeCount === 0) return;
+        byConstruction[type].buildings += typeCount;
+        const state = damageStateAt(type, overpressure);
+        if (!state) return;
+        damage[state] += typeCount;
+        if (state === 'severe' || state === 'collapsed') byConstruction[type].destroyed += typeCount;
+        worst = Math.max(worst, DAMAGE_STATES.indexOf(state) + 1);
+      });
+      worstStates[row * cols + col] = worst;
+    }
+  }
+
+  return {
+    bounds,
+    rows,
+    cols,
+    worstStates,
+    cellBuildings,
+    totalBuildings,
+    damage,
+    byConstruction,
+    destroyed: damage.severe + damage.collapsed,
+  };
+};
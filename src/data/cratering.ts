@@ -0,0 +1,129 @@
+import { NuclearWeapon, scaleRadiationDose } from './nuclearWeapons';
+
+// Ground medium at the burst point
+export type SoilType = 'dry-soil' | 'wet-soil' | 'dry-rock' | 'wet-rock';
+
+export interface CraterDimensions {
+  apparentRadius: number; // meters, radius of the visible crater
+  depth: number; // meters, apparent depth below the original surface
+  lipRadius: number; // meters, outer edge of the ejecta lip
+  groundShockRadius: number; // meters, severe damage to buried structures (plastic zone)
+}
+
+export const SOIL_TYPES: Array<{ id: SoilType; label: string }> = [
+  { id: 'dry-soil', label: 'Dry soil' },
+  { id: 'wet-soil', label: 'Wet soil' },
+  { id: 'dry-rock', label: 'Dry rock' },
+  { id: 'wet-rock', label: 'Wet rock' },
+];
+
+// Apparent crater radius (m) and depth-to-radius ratio for a 1 kt contact burst,
+// approximating Glasstone & Dolan Table 6.70
+const CRATER_COEFFICIENTS: Record<SoilType, { radius: number; depthRatio: number }> = {
+  'dry-soil': { radius: 18, depthRatio: 0.5 },
+  'wet-soil': { radius: 24, depthRatio: 0.35 },
+  'dry-rock': { radius: 15, depthRatio: 0.5 },
+  'wet-rock': { radius: 16, depthRatio: 0.5 },
+};
+
+// Crater dimensions scale with W^(1/3.4) rather than cube-root because of gravity effects
+const craterScaling = (yieldKt: number): number => Math.pow(yieldKt, 1 / 3.4);
+
+// Scaled depth of burst (m/kt^(1/3.4)) giving the largest crater, and where the burst is fully contained
+const OPTIMUM_SCALED_DEPTH = 40;
+const CONTAINMENT_SCALED_DEPTH = 100;
+
+// Ejecta lip extends to about twice the crater radius; buried structures fail out to 1.5 crater radii
+const LIP_RADIUS_RATIO = 2.0;
+const GROUND_SHOCK_RADIUS_RATIO = 1.5;
+
+// Crater size relative to a contact burst for a given depth of burst
+// Shallow burial couples more energy into the ground until the optimum depth; deeper bursts are
+// increasingly contained and leave no surface crater (camouflet)
+const depthOfBurstFactor = (yieldKt: number, depthOfBurstMeters: number): number => {
+  const scaledDepth = Math.max(0, depthOfBurstMeters) / craterScaling(yieldKt);
+  if (scaledDepth <= OPTIMUM_SCALED_DEPTH) {
+    return 1 + 1.5 * scaledDepth / OPTIMUM_SCALED_DEPTH;
+  }
+  if (scaledDepth >= CONTAINMENT_SCALED_DEPTH) return 0;
+  return 2.5 * (CONTAINMENT_SCALED_DEPTH - scaledDepth) / (CONTAINMENT_SCALED_DEPTH - OPTIMUM_SCALED_DEPTH);
+};
+
+// Crater and ground-shock dimensions
+// groundCoupling (0-1) reduces cratering for bursts above the surface, see calculateGroundCoupling
+export const calculateCraterDimensions = (
+  yieldKt: number,
+  soil: SoilType = 'dry-soil',
+  depthOfBurstMeters: number = 0,
+  groundCoupling: number = 1
+): CraterDimensions => {
+  const coefficients = CRATER_COEFFICIENTS[soil];
+  const factor = depthOfBurstMeters > 0
+    ? depthOfBurstFactor(yieldKt, depthOfBurstMeters)
+    : Math.max(0, Math.min(1, groundCoupling));
+  const apparentRadius = coefficients.radius * craterScaling(yieldKt) * factor;
+
+  return {
+    apparentRadius,
+    depth: apparentRadius * coefficients.depthRatio,
+    lipRadius: apparentRadius * LIP_RADIUS_RATIO,
+    groundShockRadius: apparentRadius * GROUND_SHOCK_RADIUS_RATIO,
+  };
+};
+
+// Share of a buried burst's energy that vents into the air, 1 at the surface falling to 0 where
+// the burst is fully contained
+export const ventedFraction = (yieldKt: number, depthOfBurstMeters: number): number => {
+  const scaledDepth = Math.max(0, depthOfBurstMeters) / craterScaling(yieldKt);
+  return Math.max(0, 1 - scaledDepth / CONTAINMENT_SCALED_DEPTH);
+};
+
+// Surface effects of a buried burst from the energy that vents
+// Airblast radii scale with the cube root of the vented energy and the fireball as it does with
+// yield. Thermal and prompt radiation must also get through the overburden, so their energy falls
+// with the square of the vented share.
+export const applyBurialToBlastEffects = (
+  blastEffects: NuclearWeapon['blastEffects'],
+  yieldKt: number,
+  depthOfBurstMeters: number
+): NuclearWeapon['blastEffects'] => {
+  const vented = ventedFraction(yieldKt, depthOfBurstMeters);
+  if (vented >= 1) return blastEffects;
+
+  const blastScale = Math.cbrt(vented);
+  const { overpressure, thermal } = blastEffects;
+  return {
+    ...blastEffects,
+    fireball: blastEffects.fireball * Math.pow(vented, 0.4),
+    overpressure: {
+      psi20: overpressure.psi20 * blastScale,
+      psi5: overpressure.psi5 * blastScale,
+      psi2: overpressure.psi2 * blastScale,
+      psi1: overpressure.psi1 * blastScale,
+    },
+    // Fluence falls with the square of range, so radii scale with the square root of the energy
+    thermal: {
+      thirdDegree: thermal.thirdDegree * vented,
+      secondDegree: thermal.secondDegree * vented,
+      firstDegree: thermal.firstDegree * vented,
+    },
+    radiation: scaleRadiationDose(blastEffects.radiation, vented * vented),
+  };
+};
+
+// Attach crater dimensions to a set of blast effects when the burst craters the ground
+export const applyCrateringToBlastEffects = (
+  blastEffects: NuclearWeapon['blastEffects'],
+  yieldKt: number,
+  soil: SoilType,
+  depthOfBurstMeters: number,
+  groundCoupling: number
+): NuclearWeapon['blastEffects'] => {
+  const crater = calculateCraterDimensions(yieldKt, soil, depthOfBurstMeters, groundCoupling);
+  if (crater.apparentRadius <= 0) return blastEffects;
+  return { ...blastEffects, crater };
+};
+
+export const parseSoilType = (value: string | null): SoilType => {
+  return SOIL_TYPES.find(s => s.id === value)?.id ?? 'dry-soil';
+};
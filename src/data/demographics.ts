@@ -0,0 +1,105 @@
+// Age structure of the population and age-specific vulnerability
+
+export type AgeBracket = '0-4' | '5-14' | '15-44' | '45-64' | '65+';
+
+export const AGE_BRACKETS: AgeBracket[] = ['0-4', '5-14', '15-44', '45-64', '65+'];
+
+export const AGE_BRACKET_LABELS: Record<AgeBracket, string> = {
+  '0-4': 'Under 5',
+  '5-14': '5-14',
+  '15-44': '15-44',
+  '45-64': '45-64',
+  '65+': '65 and over',
+};
+
+// Share of the population in each bracket, sums to 1
+export type AgeStructure = Record<AgeBracket, number>;
+
+// Exposure multipliers relative to adults aged 15-44, for whom the lethality curves are set.
+// Burn mortality rises steeply with age and is raised in infants; young children and the
+// elderly tolerate blast trauma and acute radiation less well.
+export const AGE_VULNERABILITY: Record<AgeBracket, Record<'blast' | 'thermal' | 'radiation', number>> = {
+  '0-4': { blast: 1.2, thermal: 1.5, radiation: 1.3 },
+  '5-14': { blast: 1, thermal: 1.1, radiation: 1.1 },
+  '15-44': { blast: 1, thermal: 1, radiation: 1 },
+  '45-64': { blast: 1.1, thermal: 1.2, radiation: 1.1 },
+  '65+': { blast: 1.4, thermal: 1.8, radiation: 1.3 },
+};
+
+// Percent of the population in each bracket [0-4, 5-14, 15-44, 45-64, 65+] by ISO country code,
+// rounded from the UN World Population Prospects 2022 estimates
+const COUNTRY_PYRAMIDS: Record<string, [number, number, number, number, number]> = {
+  br: [6.5, 13.5, 44, 25.5, 10.5],
+  cn: [5, 12, 40, 29, 14],
+  de: [4.7, 9.3, 35.2, 28.8, 22],
+  fr: [5.3, 12.3, 35.9, 25.4, 21.1],
+  gb: [5.4, 11.9, 38.5, 25.1, 19.1],
+  il: [9.8, 17.8, 40.4, 19.7, 12.3],
+  in: [8, 17, 47.5, 20.5, 7],
+  ir: [7, 16, 46, 23, 8],
+  jp: [3.6, 8, 31.4, 27.6, 29.4],
+  kp: [6.5, 13, 42.5, 26.5, 11.5],
+  kr: [3, 8, 36, 35, 18],
+  ng: [15.5, 26.5, 44, 11, 3],
+  pk: [12.5, 23, 47.5, 12.7, 4.3],
+  ru: [5.6, 12.5, 38.8, 26.9, 16.2],
+  ua: [4.5, 10.5, 39, 28, 18],
+  us: [5.7, 12.3, 39.5, 25.2, 17.3],
+};
+
+// Used when the country is unknown or not in the table
+const WORLD_PYRAMID: [number, number, number, number, number] = [8, 17, 44, 21, 10];
+
+export interface Demographics {
+  ageStructure: AgeStructure;
+  source: 'custom' | 'country' | 'world';
+  country?: string; // ISO 3166-1 alpha-2, lower case
+}
+
+// Scale shares so they sum to 1, falling back to the world structure
+export const normalizeAgeStructure = (shares: number[]): AgeStructure => {
+  const clean = AGE_BRACKETS.map((_, i) => Math.max(0, shares[i] || 0));
+  const total = clean.reduce((sum, share) => sum + share, 0);
+  const values = total > 0 ? clean.map(share => share / total) : WORLD_PYRAMID.map(share => share / 100);
+  return Object.fromEntries(AGE_BRACKETS.map((bracket, i) => [bracket, values[i]])) as AgeStructure;
+};
+
+// Default age structure for a country, or the world average
+export const defaultDemographics = (country?: string): Demographics => {
+  const code = country?.toLowerCase();
+  const pyramid = code ? COUNTRY_PYRAMIDS[code] : undefined;
+  return pyramid
+    ? { ageStructure: normalizeAgeStructure(pyramid), source: 'country', country: code }
+    : { ageStructure: normalizeAgeStructure(WORLD_PYRAMID), source: 'world', country: code };
+};
+
+// World average, used when no country or custom structure is given
+export const DEFAULT_DEMOGRAPHICS: Demographics = defaultDemographics();
+
+// Plain-language summary, e.g. "Country default (US), 17% aged 65+"
+export const describeDemographics = (demographics: Demographics): string => {
+  const source = demographics.source === 'custom'
+    ? 'Custom age structure'
+    : demographics.source === 'country'
+      ? `Country default (${demographics.country?.toUpperCase()})`
+      : 'World average age structure';
+  return `${source}, ${Math.round(demographics.ageStructure['0-4'] * 100)}% under 5, ` +
+    `${Math.round(demographics.ageStructure['65+'] * 100)}% aged 65+`;
+};
+
+// URL round-trip for the blast page, custom shares as comma-separated percentages
+export const demographicsToParams = (demographics: Demographics): Record<string, string> => ({
+  ...(demographics.country ? { country: demographics.country } : {}),
+  ...(demographics.source === 'custom'
+    ? { ages: AGE_BRACKETS.map(bracket => Math.round(demographics.ageStructure[bracket] * 1000) / 10).join(',') }
+    : {}),
+});
+
+export const parseDemographicsParams = (params: { get: (key: string) => string | null }): Demographics => {
+  const country = params.get('country') || undefined;
+  const percentages = (params.get('ages') || '').split(',').map(value => parseFloat(value));
+  if (percentages.length === AGE_BRACKETS.length && percentages.every(p => !isNaN(p))) {
+    return { ageStructure: normalizeAgeStructure(percentages), source: 'custom', country: country?.toLowerCase() };
+  }
+  return defaultDemographics(country);
+};
@@ -0,0 +1,251 @@
+import { NuclearWeapon } from './nuclearWeapons';
+import { effectsAtRangeFromBlastEffects } from './effectsAtRange';
+import {
+  ConstructionType,
+  DamageState,
+  CONSTRUCTION_TYPE_ORDER,
+  DAMAGE_STATES,
+  damageStateAt,
+} from './buildingDamage';
+import { haversineDistance } from './populationDataSources';
+import type { PopulationGrid } from './populationDataSources';
+
+// Economic loss to buildings and damage to infrastructure, by overpressure ring
+
+export type PsiRing = 'psi20' | 'psi5' | 'psi2' | 'psi1';
+
+// Innermost first, each ring runs from its overpressure down to the next ring's
+export const PSI_RINGS: Array<{ ring: PsiRing; label: string; minPsi: number }> = [
+  { ring: 'psi20', label: '20+ psi', minPsi: 20 },
+  { ring: 'psi5', label: '5-20 psi', minPsi: 5 },
+  { ring: 'psi2', label: '2-5 psi', minPsi: 2 },
+  { ring: 'psi1', label: '1-2 psi', minPsi: 1 },
+];
+
+// Ring containing an overpressure, or null below 1 psi
+export const psiRingAt = (overpressure: number): PsiRing | null => {
+  return PSI_RINGS.find(r => overpressure >= r.minPsi)?.ring ?? null;
+};
+
+// Replacement cost (USD per m² of floor area), typical US construction costs
+const REPLACEMENT_COST_PER_M2: Record<ConstructionType, number> = {
+  'wood-frame': 1800,
+  'masonry': 2000,
+  'reinforced-concrete': 2600,
+  'steel-frame': 2800,
+};
+
+// Repair cost as a share of replacement cost, after the HAZUS damage ratios with severe
+// damage treated as close to a total loss
+const DAMAGE_RATIOS: Record<DamageState, number> = {
+  light: 0.05,
+  moderate: 0.25,
+  severe: 0.8,
+  collapsed: 1,
+};
+
+// Floor area per resident when the grid has no building data
+const FLOOR_AREA_PER_PERSON = 45; // m²
+
+export interface BuildingLoss {
+  replacementValue: number; // USD, all buildings in the grid
+  loss: number; // USD
+  lossByRing: Record<PsiRing, number>;
+  lossByState: Record<DamageState, number>;
+  floorAreaSource: 'osm' | 'estimated';
+}
+
+// Repair and replacement cost of building damage over the population grid
+// Each cell's floor area is split between construction types by building count; grids without
+// building data assume masonry with floor area in proportion to the population
+export const calculateBuildingLoss = (
+  blastEffects: NuclearWeapon['blastEffects'],
+  populationGrid: PopulationGrid | null | undefined,
+  center: { lat: number; lng: number }
+): BuildingLoss | null => {
+  if (!populationGrid) return null;
+
+  const { bounds, data, floorArea, buildings } = populationGrid;
+  const gridHeight = data.length;
+  const gridWidth = data[0]?.length || 0;
+  const cellLatSize = (bounds.north - bounds.south) / gridHeight;
+  const cellLngSize = (bounds.east - bounds.west) / gridWidth;
+  const metersPerDegreeLng = 111000 * Math.cos(center.lat * Math.PI / 180);
+
+  const lossByRing: Record<PsiRing, number> = { psi20: 0, psi5: 0, psi2: 0, psi1: 0 };
+  const lossByState: Record<DamageState, number> = { light: 0, moderate: 0, severe: 0, collapsed: 0 };
+  let replacementValue = 0;
+
+  for (let row = 0; row < gridHeight; row++) {
+    for (let col = 0; col < gridWidth; col++) {
+      const cellFloorArea = floorArea ? floorArea[row][col] : data[row][col] * FLOOR_AREA_PER_PERSON;
+      if (cellFloorArea <= 0) continue;
+
+      // Share of the floor area in each construction type
+      const counts = CONSTRUCTION_TYPE_ORDER.map(type => buildings ? buildings[type][row][col] : 0);
+      const totalCount = counts.reduce((sum, count) => sum + count, 0);
+      const shares = totalCount > 0
+        ? counts.map(count => count / totalCount)
+        : CONSTRUCTION_TYPE_ORDER.map(type => type === 'masonry' ? 1 : 0);
+
+      const distance = Math.hypot(
+        (bounds.south + (row + 0.5) * cellLatSize - center.lat) * 111000,
+        (bounds.west + (col + 0.5) * cellLngSize - center.lng) * metersPerDegreeLng
+      );
+      const { overpressure } = effectsAtRangeFromBlastEffects(blastEffects, distance / 1000);
+      const ring = psiRingAt(overpressure);
+
+      CONSTRUCTION_TYPE_ORDER.forEach((type, i) => {
+        if (shares[i] === 0) return;
+        const value = cellFloorArea * shares[i] * REPLACEMENT_COST_PER_M2[type];
+        replacementValue += value;
+        const state = damageStateAt(type, overpressure);
+        if (!state) return;
+        const loss = value * DAMAGE_RATIOS[state];
+        lossByState[state] += loss;
+        if (ring) lossByRing[ring] += loss;
+      });
+    }
+  }
+
+  return {
+    replacementValue,
+    loss: DAMAGE_STATES.reduce((sum, state) => sum + lossByState[state], 0),
+    lossByRing,
+    lossByState,
+    floorAreaSource: floorArea ? 'osm' : 'estimated',
+  };
+};
+
+export type InfrastructureType = 'road' | 'bridge' | 'substation' | 'water';
+
+// Overpressure (psi) at which each asset is destroyed or put out of service, approximating
+// Glasstone & Dolan Chapter 5: roads blocked by debris and cratering, bridges dropped,
+// transformers and switchgear wrecked, pumping and treatment plants disabled
+export const INFRASTRUCTURE_TYPES: Record<InfrastructureType, { label: string; destroyedAt: number }> = {
+  road: { label: 'Major road segments', destroyedAt: 10 },
+  bridge: { label: 'Bridges', destroyedAt: 10 },
+  substation: { label: 'Power substations', destroyedAt: 5 },
+  water: { label: 'Water facilities', destroyedAt: 8 },
+};
+
+export const INFRASTRUCTURE_TYPE_ORDER = Object.keys(INFRASTRUCTURE_TYPES) as InfrastructureType[];
+
+export interface InfrastructureAsset {
+  type: InfrastructureType;
+  lat: number;
+  lng: number;
+}
+
+export interface InfrastructureDamage {
+  // Assets and destroyed assets per type and ring
+  counts: Record<InfrastructureType, Record<PsiRing, { total: number; destroyed: number }>>;
+}
+
+const WATER_FACILITIES = ['water_works', 'wastewater_plant', 'water_tower', 'pumping_station'];
+
+// Classify an OSM element as an infrastructure asset, or null if it is none
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const infrastructureTypeForElement = (tags: any): InfrastructureType | null => {
+  if (tags.power === 'substation') return 'substation';
+  if (WATER_FACILITIES.includes(tags.man_made)) return 'water';
+  if (tags.highway && tags.bridge && tags.bridge !== 'no') return 'bridge';
+  if (tags.highway) return 'road';
+  return null;
+};
+
+// Cache for infrastructure queries, keyed like the population cache
+const infrastructureCache = new Map<string, { data: InfrastructureAsset[]; timestamp: number }>();
+const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+// Roads, bridges, substations and water facilities from OpenStreetMap, or null if the request fails
+export async function fetchInfrastructure(
+  lat: number,
+  lng: number,
+  radiusKm: number
+): Promise<InfrastructureAsset[] | null> {
+  const cacheKey = `${lat.toFixed(4)}-${lng.toFixed(4)}-${radiusKm.toFixed(1)}`;
+  const cached = infrastructureCache.get(cacheKey);
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
+    return cached.data;
+  }
+
+  try {
+    const around = `around:${radiusKm * 1000},${lat},${lng}`;
+    const query = `
+      [out:json][timeout:25];
+      (
+        way["highway"~"^(motorway|trunk|primary|secondary)$"](${around});
+        way["highway"~"^(tertiary|residential)$"]["bridge"](${around});
+        nwr["power"="substation"](${around});
+        nwr["man_made"~"^(${WATER_FACILITIES.join('|')})$"](${around});
+      );
+      out center;
+    `;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+
+    const response = await fetch('https://overpass-api.de/api/interpreter', {
+      method: 'POST',
+      body: `data=${encodeURIComponent(query)}`,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      throw new Error(`OSM API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const assets = data.elements.flatMap((element: any): InfrastructureAsset[] => {
+      const position = element.center ?? (element.lat !== undefined ? { lat: element.lat, lon: element.lon } : null);
+      const type = infrastructureTypeForElement(element.tags ?? {});
+      if (!position || !type) return [];
+      return [{ type, lat: position.lat, lng: position.lon }];
+    });
+
+    infrastructureCache.set(cacheKey, { data: assets, timestamp: Date.now() });
+    return assets;
+  } catch (error) {
+    console.error('Error fetching OSM infrastructure:', error);
+    return null;
+  }
+}
+
+// Count assets and destroyed assets in each overpressure ring
+export const assessInfrastructure = (
+  assets: InfrastructureAsset[],
+  blastEffects: NuclearWeapon['blastEffects'],
+  center: { lat: number; lng: number }
+): InfrastructureDamage => {
+  const counts = Object.fromEntries(INFRASTRUCTURE_TYPE_ORDER.map(type => [
+    type,
+    Object.fromEntries(PSI_RINGS.map(({ ring }) => [ring, { total: 0, destroyed: 0 }])),
+  ])) as InfrastructureDamage['counts'];
+
+  assets.forEach(asset => {
+    const distanceKm = haversineDistance(center, asset) / 1000;
+    const { overpressure } = effectsAtRangeFromBlastEffects(blastEffects, distanceKm);
+    const ring = psiRingAt(overpressure);
+    if (!ring) return;
+    counts[asset.type][ring].total++;
+    if (overpressure >= INFRASTRUCTURE_TYPES[asset.type].destroyedAt) counts[asset.type][ring].destroyed++;
+  });
+
+  return { counts };
+};
+
+// Format a dollar amount for display
+export const formatCurrency = (usd: number): string => {
+  if (usd >= 1e12) return `$${(usd / 1e12).toFixed(1)}T`;
+  if (usd >= 1e9) return `$${(usd / 1e9).toFixed(1)}B`;
+  if (usd >= 1e6) return `$${(usd / 1e6).toFixed(1)}M`;
+  return `$${Math.round(usd).toLocaleString()}`;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { calculateEffectsAtRange, effectsAtRangeFromBlastEffects } from './effectsAtRange';
+import type { NuclearWeapon } from './nuclearWeapons';
+
+const effects = (overrides: Partial<NuclearWeapon['blastEffects']>): NuclearWeapon['blastEffects'] => ({
+  fireball: 0,
+  overpressure: { psi20: 0.4, psi5: 1, psi2: 2, psi1: 3 },
+  thermal: { thirdDegree: 1, secondDegree: 1.5, firstDegree: 2 },
+  radiation: { rem500: 1, rem100: 1.3 },
+  ...overrides,
+});
+
+describe('effectsAtRangeFromBlastEffects', () => {
+  it('never exceeds an overpressure that does not reach the ground', () => {
+    [[1000, 5000], [15, 2500]].forEach(([yieldKt, height]) => {
+      [0, 0.1, 0.5].forEach(distance => {
+        const { overpressure } = calculateEffectsAtRange(yieldKt, height, distance);
+        expect(overpressure).toBeGreaterThan(0);
+        expect(overpressure).toBeLessThanOrEqual(20);
+      });
+    });
+  });
+
+  it('caps inside the innermost ground range at the unreached threshold', () => {
+    const blastEffects = effects({ overpressure: { psi20: 0, psi5: 0, psi2: 2, psi1: 3 } });
+    expect(effectsAtRangeFromBlastEffects(blastEffects, 0).overpressure).toBe(5);
+    expect(effectsAtRangeFromBlastEffects(blastEffects, 2.5).overpressure).toBeGreaterThan(1);
+    expect(effectsAtRangeFromBlastEffects(blastEffects, 2.5).overpressure).toBeLessThan(2);
+  });
+
+  it('gives a prompt dose when only the 100 rem radius reaches the ground', () => {
+    const blastEffects = effects({ radiation: { rem500: 0, rem100: 0.8 } });
+    expect(effectsAtRangeFromBlastEffects(blastEffects, 0.8).promptDose).toBeCloseTo(100, 6);
+    expect(effectsAtRangeFromBlastEffects(blastEffects, 1.2).promptDose).toBeLessThan(100);
+    expect(effectsAtRangeFromBlastEffects(blastEffects, 0).promptDose).toBeGreaterThan(100);
+    expect(effectsAtRangeFromBlastEffects(blastEffects, 0).promptDose).toBeLessThanOrEqual(500);
+  });
+
+  it('stays finite when thresholds share a range', () => {
+    const blastEffects = effects({
+      overpressure: { psi20: 1, psi5: 1, psi2: 2, psi1: 3 },
+      thermal: { thirdDegree: 1.5, secondDegree: 1.5, firstDegree: 2 },
+      radiation: { rem500: 1, rem100: 1 },
+    });
+    [0, 0.5, 1, 1.5, 2.5, 4].forEach(distance => {
+      const { overpressure, thermalFluence, promptDose } = effectsAtRangeFromBlastEffects(blastEffects, distance);
+      [overpressure, thermalFluence, promptDose].forEach(value => expect(Number.isFinite(value)).toBe(true));
+    });
+    expect(effectsAtRangeFromBlastEffects(blastEffects, 1).overpressure).toBeCloseTo(20, 6);
+  });
+});
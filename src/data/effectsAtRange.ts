@@ -0,0 +1,102 @@
+import { NuclearWeapon, HeightOfBurst, calculateBlastEffects } from './nuclearWeapons';
+
+// Point effects at a given ground range from ground zero
+export interface EffectsAtRange {
+  distance: number; // km
+  overpressure: number; // peak static overpressure, psi
+  dynamicPressure: number; // peak dynamic (wind) pressure, psi
+  thermalFluence: number; // cal/cm²
+  promptDose: number; // initial nuclear radiation, rem
+}
+
+// Ambient sea-level pressure in psi
+const AMBIENT_PRESSURE = 14.7;
+
+// Closest range evaluated, avoids singularities at ground zero (km)
+const MIN_RANGE_KM = 0.001;
+
+// Prompt radiation relaxation length (km) when only one dose radius reaches the ground, roughly
+// the spacing of the 500 and 100 rem radii for yields of tens to hundreds of kilotons
+const DEFAULT_RELAXATION_LENGTH_KM = 0.25;
+
+// A threshold with a zero range is never reached on the ground, so no value reaches it either
+const groundCap = (points: Array<[number, number]>): number => {
+  return points.reduce((cap, [r, v]) => r > 0 ? cap : Math.min(cap, v), Infinity);
+};
+
+// Points reaching the ground, nearest first; of thresholds sharing a range the highest is kept
+const groundPoints = (points: Array<[number, number]>): Array<[number, number]> => {
+  return points
+    .filter(([r]) => r > 0)
+    .sort((a, b) => a[0] - b[0] || b[1] - a[1])
+    .filter(([r], i, sorted) => i === 0 || r > sorted[i - 1][0]);
+};
+
+// Piecewise log-log interpolation through [range km, value] points, extrapolating with the end slopes
+// Points with a zero range (effect does not reach the ground) are ignored, but cap the value
+const interpolateLogLog = (points: Array<[number, number]>, rangeKm: number): number => {
+  const valid = groundPoints(points);
+  if (valid.length === 0) return 0;
+  const cap = groundCap(points);
+  if (valid.length === 1) {
+    // Single point, assume inverse-distance falloff
+    return Math.min(cap, valid[0][1] * valid[0][0] / rangeKm);
+  }
+
+  let i = valid.findIndex(([r]) => r >= rangeKm);
+  if (i === -1) i = valid.length - 1;
+  if (i === 0) i = 1;
+  const [r0, v0] = valid[i - 1];
+  const [r1, v1] = valid[i];
+  const slope = Math.log(v1 / v0) / Math.log(r1 / r0);
+  return Math.min(cap, v0 * Math.pow(rangeKm / r0, slope));
+};
+
+// Exponential attenuation between [range km, value] points (ln value linear in range)
+// Points with a zero range are ignored, but cap the value
+const interpolateSemiLog = (points: Array<[number, number]>, rangeKm: number): number => {
+  const valid = groundPoints(points);
+  if (valid.length === 0) return 0;
+  const [r0, v0] = valid[0];
+  const [r1, v1] = valid[valid.length - 1];
+  const attenuation = valid.length > 1 ? Math.log(v0 / v1) / (r1 - r0) : 1 / DEFAULT_RELAXATION_LENGTH_KM;
+  return Math.min(groundCap(points), v0 * Math.exp(-attenuation * (rangeKm - r0)));
+};
+
+// Dynamic pressure from peak overpressure (Rankine-Hugoniot relation for an ideal shock in air)
+export const dynamicPressureFromOverpressure = (overpressure: number): number => {
+  return (5 * overpressure * overpressure) / (2 * (7 * AMBIENT_PRESSURE + overpressure));
+};
+
+// Effects at a range, read off an existing set of effect radii so values match the rings on the map
+export const effectsAtRangeFromBlastEffects = (
+  blastEffects: NuclearWeapon['blastEffects'],
+  distanceKm: number
+): EffectsAtRange => {
+  const rangeKm = Math.max(MIN_RANGE_KM, distanceKm);
+  const { overpressure: op, thermal, radiation } = blastEffects;
+
+  const overpressure = interpolateLogLog([[op.psi20, 20], [op.psi5, 5], [op.psi2, 2], [op.psi1, 1]], rangeKm);
+  const thermalFluence = interpolateLogLog(
+    [[thermal.thirdDegree, 8], [thermal.secondDegree, 5], [thermal.firstDegree, 3]],
+    rangeKm
+  );
+  const promptDose = interpolateSemiLog([[radiation.rem500, 500], [radiation.rem100, 100]], rangeKm);
+
+  return {
+    distance: distanceKm,
+    overpressure,
+    dynamicPressure: dynamicPressureFromOverpressure(overpressure),
+    thermalFluence,
+    promptDose,
+  };
+};
+
+// Effects at a range for an arbitrary yield and height of burst
+export const calculateEffectsAtRange = (
+  yieldKt: number,
+  hob: HeightOfBurst,
+  distanceKm: number
+): EffectsAtRange => {
+  return effectsAtRangeFromBlastEffects(calculateBlastEffects(yieldKt, hob), distanceKm);
+};
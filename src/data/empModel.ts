@@ -0,0 +1,172 @@
+import { NuclearWeapon } from './nuclearWeapons';
+
+// Electromagnetic pulse model
+// High-altitude bursts (HEMP) illuminate everything within line of sight of the burst with an E1 field
+// whose strength follows the geomagnetic "smile" pattern. Bursts in the lower atmosphere only produce
+// a source-region EMP around ground zero.
+
+export interface EmpBand {
+  fieldStrength: number; // kV/m, lower bound of the band
+  maxRangeKm: number; // farthest ground range reached by the band
+  polygon: Array<[number, number]>; // [lat, lng] vertices, empty if the band does not reach the ground
+}
+
+export interface EmpEffects {
+  type: 'high-altitude' | 'source-region';
+  magneticLatitude: number; // degrees
+  tangentRadiusKm: number; // line-of-sight horizon radius, 0 for source-region EMP
+  peakField: number; // kV/m
+  bands: EmpBand[]; // strongest first, high-altitude only
+  sourceRegionRadiusKm: number; // source-region only
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+// Gamma rays only reach the absorbing layer needed for HEMP from bursts above about 30 km
+export const HEMP_MIN_ALTITUDE_KM = 30;
+
+// Saturated E1 peak field for large-yield bursts
+const SATURATED_FIELD_KVM = 50;
+
+// Burst altitudes offered as presets for custom devices
+export const hempAltitudePresets = [
+  { altitudeKm: 100, label: 'HEMP 100 km' },
+  { altitudeKm: 400, label: 'HEMP 400 km' },
+];
+
+// E1 field levels drawn on the map (kV/m)
+export const EMP_FIELD_BANDS = [25, 10];
+
+// Dipole approximation of the geomagnetic north pole
+const GEOMAGNETIC_POLE = { lat: 80.7, lng: -72.7 };
+
+// Geomagnetic latitude (degrees) of a location using a centered dipole
+export const geomagneticLatitude = (lat: number, lng: number): number => {
+  const toRad = Math.PI / 180;
+  const sinLat = Math.sin(lat * toRad) * Math.sin(GEOMAGNETIC_POLE.lat * toRad)
+    + Math.cos(lat * toRad) * Math.cos(GEOMAGNETIC_POLE.lat * toRad) * Math.cos((lng - GEOMAGNETIC_POLE.lng) * toRad);
+  return Math.asin(Math.max(-1, Math.min(1, sinLat))) / toRad;
+};
+
+// Ground range (km) to the line-of-sight horizon from a burst at altitudeKm
+export const tangentRadius = (altitudeKm: number): number => {
+  if (altitudeKm <= 0) return 0;
+  return EARTH_RADIUS_KM * Math.acos(EARTH_RADIUS_KM / (EARTH_RADIUS_KM + altitudeKm));
+};
+
+// Peak E1 field (kV/m), rising with yield until the deposition region saturates near 1 Mt
+const peakFieldStrength = (yieldKt: number): number => {
+  return SATURATED_FIELD_KVM * Math.min(1, Math.pow(yieldKt / 1000, 0.25));
+};
+
+// E1 field (kV/m) at a ground point given by bearing (radians from north) and ground range (km)
+// The Compton current, and so the field, is proportional to the sine of the angle between the
+// line of sight and the geomagnetic field at the burst; it weakens with slant range
+const fieldAt = (
+  peakField: number,
+  altitudeKm: number,
+  inclination: number,
+  bearing: number,
+  rangeKm: number
+): number => {
+  const angle = rangeKm / EARTH_RADIUS_KM;
+  // Ground point relative to the burst, in a frame with x east, y north, z up at ground zero
+  const x = EARTH_RADIUS_KM * Math.sin(angle) * Math.sin(bearing);
+  const y = EARTH_RADIUS_KM * Math.sin(angle) * Math.cos(bearing);
+  const z = EARTH_RADIUS_KM * Math.cos(angle) - (EARTH_RADIUS_KM + altitudeKm);
+  const slantRange = Math.sqrt(x * x + y * y + z * z);
+
+  // Geomagnetic field points north and dips downward in the northern hemisphere
+  const bx = 0;
+  const by = Math.cos(inclination);
+  const bz = -Math.sin(inclination);
+
+  const crossX = y * bz - z * by;
+  const crossY = z * bx - x * bz;
+  const crossZ = x * by - y * bx;
+  const sinAngle = Math.sqrt(crossX * crossX + crossY * crossY + crossZ * crossZ) / slantRange;
+
+  return peakField * sinAngle * Math.sqrt(altitudeKm / slantRange);
+};
+
+// Convert a bearing and ground range to a map position
+const destination = (
+  center: { lat: number; lng: number },
+  bearing: number,
+  rangeKm: number
+): [number, number] => {
+  const toRad = Math.PI / 180;
+  const angular = rangeKm / EARTH_RADIUS_KM;
+  const lat1 = center.lat * toRad;
+  const lat2 = Math.asin(Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing));
+  const lng2 = center.lng * toRad + Math.atan2(
+    Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+    Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+  );
+  return [lat2 / toRad, lng2 / toRad];
+};
+
+// E1 bands for a high-altitude burst, traced radially from ground zero
+const calculateHempBands = (
+  yieldKt: number,
+  altitudeKm: number,
+  magneticLatitude: number,
+  center: { lat: number; lng: number }
+): { peakField: number; tangentRadiusKm: number; bands: EmpBand[] } => {
+  const peakField = peakFieldStrength(yieldKt);
+  const tangentRadiusKm = tangentRadius(altitudeKm);
+  // Dipole field inclination: tan(I) = 2 tan(magnetic latitude)
+  const inclination = Math.atan(2 * Math.tan(magneticLatitude * Math.PI / 180));
+
+  const bearings = 72;
+  const rangeSteps = 100;
+  const bands = EMP_FIELD_BANDS.map(fieldStrength => {
+    let maxRangeKm = 0;
+    const polygon: Array<[number, number]> = [];
+    for (let i = 0; i < bearings; i++) {
+      const bearing = (i / bearings) * 2 * Math.PI;
+      // Farthest range along this bearing that still sees the band's field strength
+      let reach = 0;
+      for (let step = rangeSteps; step >= 0; step--) {
+        const rangeKm = tangentRadiusKm * step / rangeSteps;
+        if (fieldAt(peakField, altitudeKm, inclination, bearing, rangeKm) >= fieldStrength) {
+          reach = rangeKm;
+          break;
+        }
+      }
+      maxRangeKm = Math.max(maxRangeKm, reach);
+      polygon.push(destination(center, bearing, reach));
+    }
+    return { fieldStrength, maxRangeKm, polygon: maxRangeKm > 0 ? polygon : [] };
+  });
+
+  return { peakField, tangentRadiusKm, bands };
+};
+
+// EMP effects for a burst at altitudeKm above ground zero
+// Source-region EMP extends to roughly the 2 psi radius, where air ionization by prompt gammas is still intense
+export const calculateEmpEffects = (
+  yieldKt: number,
+  altitudeKm: number,
+  blastEffects: NuclearWeapon['blastEffects'],
+  center: { lat: number; lng: number },
+  magneticLatitude: number = geomagneticLatitude(center.lat, center.lng)
+): EmpEffects => {
+  if (altitudeKm >= HEMP_MIN_ALTITUDE_KM) {
+    return {
+      type: 'high-altitude',
+      magneticLatitude,
+      ...calculateHempBands(yieldKt, altitudeKm, magneticLatitude, center),
+      sourceRegionRadiusKm: 0,
+    };
+  }
+
+  return {
+    type: 'source-region',
+    magneticLatitude,
+    tangentRadiusKm: 0,
+    peakField: peakFieldStrength(yieldKt),
+    bands: [],
+    sourceRegionRadiusKm: Math.max(blastEffects.overpressure.psi2, blastEffects.radiation.rem100),
+  };
+};
@@ -0,0 +1,202 @@
+// Local fallout model for surface and near-surface bursts
+// Idealized unit-time (H+1) dose-rate contours in the style of Glasstone & Dolan Table 9.93,
+// scaled by fission yield, local fallout fraction and a user-entered wind. No weather data is fetched.
+
+export interface FalloutParameters {
+  yieldKt: number;
+  fissionFraction: number; // 0-1, share of the yield from fission
+  falloutFraction: number; // 0-1, share of the radioactivity deposited locally (1 = surface burst)
+  windSpeedKmh: number;
+  windDirection: number; // degrees clockwise from north the wind blows FROM (meteorological convention)
+}
+
+export interface FalloutContour {
+  doseRate: number; // rad/hr at H+1
+  downwindKm: number; // distance from ground zero to the downwind tip
+  upwindKm: number; // distance from ground zero to the upwind tip
+  maxWidthKm: number;
+  polygon: Array<[number, number]>; // [lat, lng] vertices, empty if the contour does not exist
+}
+
+// Dose-rate levels drawn on the map (rad/hr at H+1)
+export const FALLOUT_DOSE_RATES = [1000, 100, 10, 1];
+
+// Default wind when the user has not entered one
+export const DEFAULT_WIND = {
+  speedKmh: 24,
+  direction: 270, // From the west, plume drifts east
+};
+
+// Reference contours for a 1 Mt fission surface burst with a 24 km/h (15 mph) wind
+// [dose rate rad/hr at H+1, downwind distance km, maximum width km]
+const REFERENCE_CONTOURS: Array<[number, number, number]> = [
+  [3000, 32, 2.7],
+  [1000, 74, 8.0],
+  [300, 117, 13.8],
+  [100, 160, 19.3],
+  [30, 257, 29],
+  [10, 400, 45],
+  [3, 530, 60],
+  [1, 675, 74],
+];
+
+const REFERENCE_WIND_KMH = 24;
+
+// Highest H+1 dose rate near ground zero for the 1 Mt reference burst
+const MAX_REFERENCE_DOSE_RATE = 30000;
+
+// Log-log interpolation of the reference table, extrapolating with the end slopes
+const interpolateReference = (doseRate: number, column: 1 | 2): number => {
+  const table = REFERENCE_CONTOURS;
+  let i = table.findIndex(row => row[0] <= doseRate);
+  if (i === -1) i = table.length - 1; // Below the table, use the last segment
+  if (i === 0) i = 1; // Above the table, use the first segment
+  const [d0, ...v0] = table[i - 1];
+  const [d1, ...v1] = table[i];
+  const slope = Math.log(v1[column - 1] / v0[column - 1]) / Math.log(d1 / d0);
+  return v0[column - 1] * Math.pow(doseRate / d0, slope);
+};
+
+// Contour dimensions (km) for a given H+1 dose rate, or null if the plume never reaches it
+const contourDimensions = (
+  params: FalloutParameters,
+  doseRate: number
+): { downwindKm: number; upwindKm: number; maxWidthKm: number } | null => {
+  const effectiveFissionMt = (params.yieldKt / 1000) * params.fissionFraction * params.falloutFraction;
+  if (effectiveFissionMt <= 0) return null;
+
+  // Dose rates scale roughly linearly with fission yield, so look up the equivalent 1 Mt level
+  const referenceDoseRate = doseRate / effectiveFissionMt;
+  if (referenceDoseRate > MAX_REFERENCE_DOSE_RATE) return null;
+
+  // Stronger wind stretches the plume downwind and narrows it, keeping the area roughly constant
+  const windRatio = Math.min(4, Math.max(0.25, params.windSpeedKmh / REFERENCE_WIND_KMH));
+  const downwindKm = interpolateReference(referenceDoseRate, 1) * Math.sqrt(windRatio);
+  const maxWidthKm = interpolateReference(referenceDoseRate, 2) / Math.sqrt(windRatio);
+  if (!(downwindKm > 0) || !(maxWidthKm > 0)) return null;
+
+  // Early fallout also settles around ground zero, extending the contour slightly upwind
+  return { downwindKm, upwindKm: maxWidthKm / 4, maxWidthKm };
+};
+
+// Bearing (radians, clockwise from north) the plume travels toward
+const plumeBearing = (windDirection: number): number => ((windDirection + 180) % 360) * Math.PI / 180;
+
+// Convert a downwind/crosswind offset (km) to a map position
+const offsetToLatLng = (
+  center: { lat: number; lng: number },
+  bearing: number,
+  downwindKm: number,
+  crosswindKm: number
+): [number, number] => {
+  const northKm = downwindKm * Math.cos(bearing) - crosswindKm * Math.sin(bearing);
+  const eastKm = downwindKm * Math.sin(bearing) + crosswindKm * Math.cos(bearing);
+  return [
+    center.lat + northKm / 111,
+    center.lng + eastKm / (111 * Math.cos(center.lat * Math.PI / 180)),
+  ];
+};
+
+// Convert a map position to a downwind/crosswind offset (km) from ground zero
+const latLngToOffset = (
+  center: { lat: number; lng: number },
+  bearing: number,
+  point: { lat: number; lng: number }
+): { downwindKm: number; crosswindKm: number } => {
+  const northKm = (point.lat - center.lat) * 111;
+  const eastKm = (point.lng - center.lng) * 111 * Math.cos(center.lat * Math.PI / 180);
+  return {
+    downwindKm: northKm * Math.cos(bearing) + eastKm * Math.sin(bearing),
+    crosswindKm: -northKm * Math.sin(bearing) + eastKm * Math.cos(bearing),
+  };
+};
+
+// Whether a downwind/crosswind offset lies inside an elliptical contour
+const insideContour = (
+  dimensions: { downwindKm: number; upwindKm: number; maxWidthKm: number },
+  downwindKm: number,
+  crosswindKm: number
+): boolean => {
+  const semiMajor = (dimensions.downwindKm + dimensions.upwindKm) / 2;
+  const centerOffset = (dimensions.downwindKm - dimensions.upwindKm) / 2;
+  const semiMinor = dimensions.maxWidthKm / 2;
+  const x = (downwindKm - centerOffset) / semiMajor;
+  const y = crosswindKm / semiMinor;
+  return x * x + y * y <= 1;
+};
+
+// Calculate the H+1 dose-rate contours for the map
+export const calculateFalloutContours = (
+  params: FalloutParameters,
+  center: { lat: number; lng: number },
+  doseRates: number[] = FALLOUT_DOSE_RATES
+): FalloutContour[] => {
+  const bearing = plumeBearing(params.windDirection);
+  const vertices = 72;
+
+  return doseRates.map(doseRate => {
+    const dimensions = contourDimensions(params, doseRate);
+    if (!dimensions) {
+      return { doseRate, downwindKm: 0, upwindKm: 0, maxWidthKm: 0, polygon: [] };
+    }
+
+    const semiMajor = (dimensions.downwindKm + dimensions.upwindKm) / 2;
+    const centerOffset = (dimensions.downwindKm - dimensions.upwindKm) / 2;
+    const polygon: Array<[number, number]> = [];
+    for (let i = 0; i < vertices; i++) {
+      const angle = (i / vertices) * 2 * Math.PI;
+      polygon.push(offsetToLatLng(
+        center,
+        bearing,
+        centerOffset + semiMajor * Math.cos(angle),
+        (dimensions.maxWidthKm / 2) * Math.sin(angle)
+      ));
+    }
+
+    return { doseRate, ...dimensions, polygon };
+  });
+};
+
+// H+1 dose rate (rad/hr) at a point, found by bisecting for the highest contour that contains it
+export const falloutDoseRateAt = (
+  params: FalloutParameters,
+  center: { lat: number; lng: number },
+  point: { lat: number; lng: number }
+): number => {
+  const { downwindKm, crosswindKm } = latLngToOffset(center, plumeBearing(params.windDirection), point);
+  const contains = (doseRate: number) => {
+    const dimensions = contourDimensions(params, doseRate);
+    return dimensions !== null && insideContour(dimensions, downwindKm, crosswindKm);
+  };
+
+  // Below 0.01 rad/hr at H+1 the contribution is negligible
+  let low = Math.log(0.01);
+  let high = Math.log(1e6);
+  if (!contains(Math.exp(low))) return 0;
+  if (contains(Math.exp(high))) return Math.exp(high);
+
+  for (let i = 0; i < 40; i++) {
+    const mid = (low + high) / 2;
+    if (contains(Math.exp(mid))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+
+  return Math.exp(low);
+};
+
+// Earliest fallout arrival (hours), close-in particles come down within minutes of the burst
+const MIN_ARRIVAL_HOURS = 0.25;
+
+// Fallout arrival time (hours after burst) at a point, from the downwind transport distance
+export const falloutArrivalTime = (
+  params: FalloutParameters,
+  center: { lat: number; lng: number },
+  point: { lat: number; lng: number }
+): number => {
+  const { downwindKm } = latLngToOffset(center, plumeBearing(params.windDirection), point);
+  if (downwindKm <= 0 || params.windSpeedKmh <= 0) return MIN_ARRIVAL_HOURS;
+  return Math.max(MIN_ARRIVAL_HOURS, downwindKm / params.windSpeedKmh);
+};
@@ -0,0 +1,138 @@
+import { NuclearWeapon } from './nuclearWeapons';
+import { effectsAtRangeFromBlastEffects } from './effectsAtRange';
+import { PopulationGrid, circleCellOverlaps } from './populationDataSources';
+
+// Fire ignition and mass fire model
+// The thermal pulse ignites kindling across a wide area; where enough fuel is present the
+// individual fires merge into a mass fire, and in dense fuel into a firestorm (superfire)
+
+export interface IgnitionRadius {
+  material: string;
+  threshold: number; // cal/cm² needed for sustained ignition at this yield
+  radiusKm: number;
+}
+
+export interface FireEffects {
+  ignition: IgnitionRadius[]; // most easily ignited first
+  massFireRadiusKm: number;
+  meanFuelLoading: number; // kg/m² of ground inside the mass fire zone
+  fuelSource: 'osm' | 'default';
+  firestorm: boolean;
+  fatalityRate: number; // share of blast and radiation survivors killed by fire inside the zone
+}
+
+// Radiant exposure (cal/cm²) for sustained ignition at 35 kt, 1.4 Mt and 20 Mt,
+// approximating Glasstone & Dolan Table 7.40. Longer pulses from larger yields need more energy.
+const KINDLING_MATERIALS: Array<{ material: string; thresholds: [number, number, number] }> = [
+  { material: 'Dry grass and leaves', thresholds: [3, 5, 6] },
+  { material: 'Newspaper', thresholds: [4, 6, 7] },
+  { material: 'Curtains and drapery', thresholds: [7, 9, 12] },
+  { material: 'Upholstery and bedding', thresholds: [11, 14, 19] },
+];
+const THRESHOLD_YIELDS_KT = [35, 1400, 20000];
+
+// Mass fires start where furnishings seen through windows ignite, not just outdoor litter
+const MASS_FIRE_MATERIAL = 'Curtains and drapery';
+
+// Combustible mass per m² of building floor area (contents and structure)
+const FUEL_PER_FLOOR_AREA = 40;
+
+// Fuel loading (kg/m² of ground) assumed when building data is unavailable
+const DEFAULT_FUEL_LOADING = 20;
+
+// Firestorm criteria from the Hamburg and Hiroshima experience: at least 8 lb/ft² (about 40 kg/m²)
+// of fuel over an area of at least 0.5 square miles (about 1.3 km²)
+const FIRESTORM_FUEL_LOADING = 40;
+const FIRESTORM_MIN_AREA_KM2 = 1.3;
+
+// Share of survivors inside the zone killed by fire
+const FIRESTORM_FATALITY_RATE = 0.6;
+const MASS_FIRE_FATALITY_RATE = 0.25; // At firestorm fuel loading without a firestorm forming
+
+// Ignition threshold for a material at a given yield, interpolated in log(yield)
+const ignitionThreshold = (thresholds: [number, number, number], yieldKt: number): number => {
+  const logYield = Math.log(Math.min(THRESHOLD_YIELDS_KT[2], Math.max(THRESHOLD_YIELDS_KT[0], yieldKt)));
+  const i = logYield <= Math.log(THRESHOLD_YIELDS_KT[1]) ? 0 : 1;
+  const x0 = Math.log(THRESHOLD_YIELDS_KT[i]);
+  const x1 = Math.log(THRESHOLD_YIELDS_KT[i + 1]);
+  return thresholds[i] + (thresholds[i + 1] - thresholds[i]) * (logYield - x0) / (x1 - x0);
+};
+
+// Range (km) at which the thermal fluence falls to the given level
+const rangeForFluence = (blastEffects: NuclearWeapon['blastEffects'], fluence: number): number => {
+  if (blastEffects.thermal.firstDegree <= 0) return 0;
+
+  // Fluence decreases monotonically with range, so bisect for the matching range
+  let low = 0;
+  let high = blastEffects.thermal.firstDegree * 10;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (effectsAtRangeFromBlastEffects(blastEffects, mid).thermalFluence > fluence) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+// Mean fuel loading (kg/m²) within radiusKm, weighting cells on the edge by the share inside,
+// or null when the grid has no building floor area
+const meanFuelLoadingInRadius = (
+  populationGrid: PopulationGrid,
+  center: { lat: number; lng: number },
+  radiusKm: number
+): number | null => {
+  const { bounds, floorArea } = populationGrid;
+  if (!floorArea || floorArea.length === 0) return null;
+
+  const gridHeight = floorArea.length;
+  const gridWidth = floorArea[0]?.length || 0;
+  const cellHeightM = (bounds.north - bounds.south) / gridHeight * 111000;
+  const cellWidthM = (bounds.east - bounds.west) / gridWidth * 111000 * Math.cos(center.lat * Math.PI / 180);
+  const cellArea = cellHeightM * cellWidthM;
+
+  let totalFloorArea = 0;
+  let cells = 0;
+  circleCellOverlaps(populationGrid, center, radiusKm * 1000).forEach(({ row, col, fraction }) => {
+    totalFloorArea += floorArea[row][col] * fraction;
+    cells += fraction;
+  });
+
+  if (cells === 0) return null;
+  return totalFloorArea * FUEL_PER_FLOOR_AREA / (cells * cellArea);
+};
+
+// Fire effects for a burst, using building floor area from the population grid as fuel when available
+export const calculateFireEffects = (
+  yieldKt: number,
+  blastEffects: NuclearWeapon['blastEffects'],
+  center: { lat: number; lng: number },
+  populationGrid?: PopulationGrid | null
+): FireEffects => {
+  const ignition = KINDLING_MATERIALS.map(({ material, thresholds }) => {
+    const threshold = ignitionThreshold(thresholds, yieldKt);
+    return { material, threshold, radiusKm: rangeForFluence(blastEffects, threshold) };
+  });
+
+  const massFireRadiusKm = ignition.find(i => i.material === MASS_FIRE_MATERIAL)?.radiusKm ?? 0;
+  const gridFuelLoading = populationGrid && massFireRadiusKm > 0
+    ? meanFuelLoadingInRadius(populationGrid, center, massFireRadiusKm)
+    : null;
+  const meanFuelLoading = gridFuelLoading ?? DEFAULT_FUEL_LOADING;
+
+  const firestorm = meanFuelLoading >= FIRESTORM_FUEL_LOADING
+    && Math.PI * massFireRadiusKm * massFireRadiusKm >= FIRESTORM_MIN_AREA_KM2;
+  const fatalityRate = firestorm
+    ? FIRESTORM_FATALITY_RATE
+    : MASS_FIRE_FATALITY_RATE * Math.min(1, meanFuelLoading / FIRESTORM_FUEL_LOADING);
+
+  return {
+    ignition,
+    massFireRadiusKm,
+    meanFuelLoading,
+    fuelSource: gridFuelLoading === null ? 'default' : 'osm',
+    firestorm,
+    fatalityRate,
+  };
+};
@@ -0,0 +1,113 @@
+// Overpressure levels covered by the height-of-burst curves
+export type OverpressureLevel = 'psi20' | 'psi5' | 'psi2' | 'psi1';
+
+export const OVERPRESSURE_LEVELS: Array<{ level: OverpressureLevel; psi: number }> = [
+  { level: 'psi20', psi: 20 },
+  { level: 'psi5', psi: 5 },
+  { level: 'psi2', psi: 2 },
+  { level: 'psi1', psi: 1 },
+];
+
+// Scaled height-of-burst curves for a 1 kt burst, in the style of Glasstone & Dolan Fig. 3.73
+// Each point is [burst height in meters, ground range in km]. Curves start at the surface burst
+// range, peak at the optimum height and close where the level no longer reaches the ground.
+// Peak ranges match the optimized airburst constants used by calculateBlastEffects.
+const HOB_CURVES: Record<OverpressureLevel, Array<[number, number]>> = {
+  psi20: [[0, 0.30], [100, 0.33], [180, 0.38], [240, 0.41], [290, 0.39], [330, 0.30], [360, 0.15], [375, 0]],
+  psi5: [[0, 0.68], [200, 0.76], [400, 0.90], [550, 0.98], [700, 0.92], [850, 0.70], [950, 0.40], [1000, 0]],
+  psi2: [[0, 1.23], [300, 1.38], [600, 1.68], [850, 1.91], [1100, 1.80], [1400, 1.40], [1650, 0.80], [1800, 0]],
+  psi1: [[0, 1.95], [400, 2.20], [800, 2.70], [1200, 3.12], [1600, 2.95], [2000, 2.40], [2400, 1.40], [2700, 0]],
+};
+
+// Cube-root scaling factor, same exponent as the blast radii in calculateBlastEffects
+const blastScaling = (yieldKt: number): number => Math.pow(yieldKt, 0.33);
+
+// Linear interpolation along a curve of [height, range] points
+const interpolateCurve = (curve: Array<[number, number]>, scaledHeight: number): number => {
+  if (scaledHeight <= curve[0][0]) return curve[0][1];
+  for (let i = 1; i < curve.length; i++) {
+    const [h1, r1] = curve[i];
+    if (scaledHeight <= h1) {
+      const [h0, r0] = curve[i - 1];
+      return r0 + (r1 - r0) * (scaledHeight - h0) / (h1 - h0);
+    }
+  }
+  return 0; // Above the curve, this overpressure never reaches the ground
+};
+
+// Scaled ground range (km at 1 kt) for any psi between 1 and 20, interpolating between curves in log(psi)
+const scaledRangeForPsi = (psi: number, scaledHeight: number): number => {
+  const clampedPsi = Math.min(20, Math.max(1, psi));
+  for (let i = 0; i < OVERPRESSURE_LEVELS.length - 1; i++) {
+    const upper = OVERPRESSURE_LEVELS[i];
+    const lower = OVERPRESSURE_LEVELS[i + 1];
+    if (clampedPsi <= upper.psi && clampedPsi >= lower.psi) {
+      const t = Math.log(clampedPsi / lower.psi) / Math.log(upper.psi / lower.psi);
+      const lowerRange = interpolateCurve(HOB_CURVES[lower.level], scaledHeight);
+      const upperRange = interpolateCurve(HOB_CURVES[upper.level], scaledHeight);
+      return lowerRange + (upperRange - lowerRange) * t;
+    }
+  }
+  return 0;
+};
+
+// Highest scaled burst height at which a given psi still reaches the ground
+const scaledMaxHeight = (psi: number): number => {
+  const clampedPsi = Math.min(20, Math.max(1, psi));
+  const lower = OVERPRESSURE_LEVELS.find(l => l.psi <= clampedPsi) || OVERPRESSURE_LEVELS[3];
+  const curve = HOB_CURVES[lower.level];
+  return curve[curve.length - 1][0];
+};
+
+// Ground range (km) of a given overpressure for a burst at heightMeters
+export const overpressureRangeAtHeight = (yieldKt: number, psi: number, heightMeters: number): number => {
+  const scaling = blastScaling(yieldKt);
+  return scaledRangeForPsi(psi, Math.max(0, heightMeters) / scaling) * scaling;
+};
+
+// All four overpressure radii (km) for a burst at heightMeters
+export const overpressureRadiiAtHeight = (yieldKt: number, heightMeters: number): Record<OverpressureLevel, number> => {
+  return Object.fromEntries(
+    OVERPRESSURE_LEVELS.map(({ level, psi }) => [level, overpressureRangeAtHeight(yieldKt, psi, heightMeters)])
+  ) as Record<OverpressureLevel, number>;
+};
+
+// Burst height (meters) that maximizes the ground range of a given overpressure
+// Coarse scan over the curve followed by a golden-section refinement around the best sample
+export const findOptimumBurstHeight = (yieldKt: number, psi: number): number => {
+  const maxHeight = scaledMaxHeight(psi);
+  const steps = 200;
+  let bestHeight = 0;
+  let bestRange = -1;
+
+  for (let i = 0; i <= steps; i++) {
+    const height = maxHeight * i / steps;
+    const range = scaledRangeForPsi(psi, height);
+    if (range > bestRange) {
+      bestRange = range;
+      bestHeight = height;
+    }
+  }
+
+  const goldenRatio = (Math.sqrt(5) - 1) / 2;
+  let low = Math.max(0, bestHeight - maxHeight / steps);
+  let high = Math.min(maxHeight, bestHeight + maxHeight / steps);
+  for (let i = 0; i < 30; i++) {
+    const a = high - goldenRatio * (high - low);
+    const b = low + goldenRatio * (high - low);
+    if (scaledRangeForPsi(psi, a) >= scaledRangeForPsi(psi, b)) {
+      high = b;
+    } else {
+      low = a;
+    }
+  }
+
+  return Math.round((low + high) / 2 * blastScaling(yieldKt));
+};
+
+// Presets offered in the UI for optimizing the burst height
+export const hobPresets = OVERPRESSURE_LEVELS.map(({ level, psi }) => ({
+  level,
+  psi,
+  label: `Optimize for ${psi} psi`,
+}));
@@ -0,0 +1,61 @@
+// Lognormal dose-response curves for each casualty mechanism
+// P(outcome) = Φ(ln(x / median) / beta), where x is the local overpressure, fluence or dose.
+// Each mechanism has one curve per outcome level; a person's outcome is the worst level
+// reached by any mechanism, with mechanisms treated as independent risks.
+
+export type CasualtyMechanism = 'fireball' | 'blast' | 'thermal' | 'radiation' | 'fire';
+
+export type OutcomeLevel = 'fatal' | 'severe' | 'moderate' | 'light';
+
+// Most to least serious
+export const OUTCOME_LEVELS: OutcomeLevel[] = ['fatal', 'severe', 'moderate', 'light'];
+
+export interface LethalityCurve {
+  median: number; // exposure giving this outcome or worse to half of those exposed
+  beta: number; // lognormal standard deviation
+}
+
+// Curves per mechanism and outcome level, for the population in typical urban buildings
+// - Blast (psi): median lethal overpressure of 5 psi with about 5% mortality at 2 psi
+// - Thermal (cal/cm²): burn thresholds of 8, 5 and 3 cal/cm² for 3rd, 2nd and 1st degree burns,
+//   with about a quarter of those receiving 8 cal/cm² dying of their burns
+// - Radiation (rem): LD50/60 of about 450 rem without treatment, acute radiation syndrome from 150 rem
+export const LETHALITY_CURVES: Record<'blast' | 'thermal' | 'radiation', Record<OutcomeLevel, LethalityCurve>> = {
+  blast: {
+    fatal: { median: 5, beta: 0.56 },
+    severe: { median: 3.5, beta: 0.56 },
+    moderate: { median: 2, beta: 0.56 },
+    light: { median: 1, beta: 0.56 },
+  },
+  thermal: {
+    fatal: { median: 10, beta: 0.35 },
+    severe: { median: 8, beta: 0.3 },
+    moderate: { median: 5, beta: 0.3 },
+    light: { median: 3, beta: 0.3 },
+  },
+  radiation: {
+    fatal: { median: 450, beta: 0.42 },
+    severe: { median: 300, beta: 0.42 },
+    moderate: { median: 150, beta: 0.42 },
+    light: { median: 75, beta: 0.42 },
+  },
+};
+
+// Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26 via erf)
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? 0.5 * (1 + erf) : 0.5 * (1 - erf);
+};
+
+// Probability of an outcome at a given exposure
+export const curveProbability = (exposure: number, curve: LethalityCurve): number => {
+  if (exposure <= 0) return 0;
+  return normalCdf(Math.log(exposure / curve.median) / curve.beta);
+};
+
+// Combine independent risks: the chance that at least one mechanism causes the outcome
+export const combineIndependentRisks = (probabilities: number[]): number => {
+  return 1 - probabilities.reduce((survive, p) => survive * (1 - Math.min(1, Math.max(0, p))), 1);
+};
@@ -0,0 +1,171 @@
+import { FalloutParameters, calculateFalloutContours, falloutDoseRateAt, falloutArrivalTime } from './falloutModel';
+import { calculateFalloutDose } from './nuclearWeapons';
+import type { PopulationData, SurvivorProfilePoint } from './populationCalculations';
+
+// Long-term radiation health effects among survivors
+// Excess cancers follow the linear no-threshold (LNT) model: risk is proportional to dose
+// with no safe threshold, so the expected count is the coefficient times the collective dose.
+
+export interface RiskCoefficients {
+  incidencePerSv: number; // excess cancer cases per person-sievert
+  mortalityPerSv: number; // excess cancer deaths per person-sievert
+}
+
+// BEIR VII (2006) lifetime attributable risk for a population of all ages, averaged over
+// both sexes: about 1 cancer in 10 and 1 cancer death in 20 per sievert
+export const BEIR_VII_COEFFICIENTS: RiskCoefficients = {
+  incidencePerSv: 0.1,
+  mortalityPerSv: 0.05,
+};
+
+// Survivors above this total dose are likely to die of acute radiation syndrome,
+// so they are counted separately rather than projected for cancer
+export const ACUTE_DOSE_THRESHOLD = 600; // rem
+
+// Dose bands reported for survivors (rem), the last band is above the acute threshold
+export const DOSE_BANDS: Array<{ label: string; min: number; max: number }> = [
+  { label: 'Under 1 rem', min: 0, max: 1 },
+  { label: '1-10 rem', min: 1, max: 10 },
+  { label: '10-100 rem', min: 10, max: 100 },
+  { label: `100-${ACUTE_DOSE_THRESHOLD} rem`, min: 100, max: ACUTE_DOSE_THRESHOLD },
+  { label: `Over ${ACUTE_DOSE_THRESHOLD} rem`, min: ACUTE_DOSE_THRESHOLD, max: Infinity },
+];
+
+// Survivors stay in ordinary houses for the first week, then leave or are decontaminated
+const FALLOUT_EXPOSURE_HOURS = 7 * 24;
+const FALLOUT_PROTECTION_FACTOR = 3;
+
+// Population density (people/km²) assumed beyond the city, roughly the average of inhabited land
+const REGIONAL_DENSITY = 50;
+
+// Dose-rate contour (rad/hr at H+1) bounding the fallout area that is sampled
+const FALLOUT_SAMPLE_DOSE_RATE = 0.1;
+
+// Sample points per side of the area around ground zero and the fallout plume
+const SAMPLE_GRID_SIZE = 120;
+
+export interface LongTermHealth {
+  coefficients: RiskCoefficients;
+  survivorsExposed: number; // survivors receiving 1 rem or more
+  doseBands: number[]; // survivors in each of DOSE_BANDS
+  collectiveDose: { prompt: number; fallout: number }; // person-rem below the acute threshold
+  excessCancers: number;
+  excessCancerDeaths: number;
+  falloutIncluded: boolean;
+}
+
+// Survivor profile value at a distance, survivors are unaffected past the profile
+const profileAt = (profile: SurvivorProfilePoint[], distance: number): SurvivorProfilePoint | null => {
+  if (profile.length === 0) return null;
+  const step = profile[0].distance * 2;
+  const index = Math.floor(distance / step);
+  return index < profile.length ? profile[index] : null;
+};
+
+// Project excess cancers from the prompt and fallout doses received by survivors
+// Samples a grid covering the casualty area and the fallout plume. Population comes from the
+// population grid where available, then the city density out to the casualty radius, then a
+// regional density.
+export const calculateLongTermHealth = (
+  survivors: SurvivorProfilePoint[],
+  populationData: PopulationData,
+  center: { lat: number; lng: number },
+  falloutParams: FalloutParameters | null,
+  coefficients: RiskCoefficients = BEIR_VII_COEFFICIENTS
+): LongTermHealth => {
+  const { populationGrid, populationDensity, urbanDensityFactor } = populationData;
+  const casualtyRadiusKm = survivors.length > 0 ? survivors[survivors.length - 1].distance / 1000 : 0;
+  const metersPerDegreeLng = 111000 * Math.cos(center.lat * Math.PI / 180);
+
+  // Sample area: the casualty disc plus the bounding box of the faintest fallout contour
+  let south = -casualtyRadiusKm;
+  let north = casualtyRadiusKm;
+  let west = -casualtyRadiusKm;
+  let east = casualtyRadiusKm;
+  const falloutIncluded = falloutParams !== null && falloutParams.falloutFraction > 0;
+  if (falloutParams && falloutIncluded) {
+    const [outerContour] = calculateFalloutContours(falloutParams, center, [FALLOUT_SAMPLE_DOSE_RATE]);
+    outerContour.polygon.forEach(([lat, lng]) => {
+      const northKm = (lat - center.lat) * 111;
+      const eastKm = (lng - center.lng) * metersPerDegreeLng / 1000;
+      south = Math.min(south, northKm);
+      north = Math.max(north, northKm);
+      west = Math.min(west, eastKm);
+      east = Math.max(east, eastKm);
+    });
+  }
+
+  const cellHeightKm = (north - south) / SAMPLE_GRID_SIZE;
+  const cellWidthKm = (east - west) / SAMPLE_GRID_SIZE;
+  const cellAreaKm2 = cellHeightKm * cellWidthKm;
+
+  // People per km² at a point
+  const densityAt = (point: { lat: number; lng: number }, distanceKm: number): number => {
+    if (populationGrid) {
+      const { bounds, data } = populationGrid;
+      const gridHeight = data.length;
+      const gridWidth = data[0]?.length || 0;
+      const row = Math.floor((point.lat - bounds.south) / (bounds.north - bounds.south) * gridHeight);
+      const col = Math.floor((point.lng - bounds.west) / (bounds.east - bounds.west) * gridWidth);
+      if (row >= 0 && row < gridHeight && col >= 0 && col < gridWidth) {
+        const gridCellAreaKm2 = (bounds.north - bounds.south) / gridHeight * 111
+          * (bounds.east - bounds.west) / gridWidth * metersPerDegreeLng / 1000;
+        return data[row][col] / gridCellAreaKm2;
+      }
+    }
+    return distanceKm <= casualtyRadiusKm ? populationDensity * urbanDensityFactor : REGIONAL_DENSITY;
+  };
+
+  const doseBands = DOSE_BANDS.map(() => 0);
+  const collectiveDose = { prompt: 0, fallout: 0 };
+  let survivorsExposed = 0;
+
+  for (let row = 0; row < SAMPLE_GRID_SIZE; row++) {
+    for (let col = 0; col < SAMPLE_GRID_SIZE; col++) {
+      const northKm = south + (row + 0.5) * cellHeightKm;
+      const eastKm = west + (col + 0.5) * cellWidthKm;
+      const distanceKm = Math.hypot(northKm, eastKm);
+      const point = {
+        lat: center.lat + northKm / 111,
+        lng: center.lng + eastKm * 1000 / metersPerDegreeLng,
+      };
+
+      const profile = profileAt(survivors, distanceKm * 1000);
+      const survivingShare = profile ? profile.survivingShare : 1;
+      const promptDose = profile ? profile.promptDose : 0;
+      const falloutDose = falloutParams && falloutIncluded
+        ? calculateFalloutDose(
+          falloutDoseRateAt(falloutParams, center, point),
+          falloutArrivalTime(falloutParams, center, point),
+          FALLOUT_EXPOSURE_HOURS,
+          FALLOUT_PROTECTION_FACTOR
+        )
+        : 0;
+      const totalDose = promptDose + falloutDose;
+      if (totalDose <= 0) continue;
+
+      const people = densityAt(point, distanceKm) * cellAreaKm2 * survivingShare;
+      if (people <= 0) continue;
+      const band = DOSE_BANDS.findIndex(b => totalDose >= b.min && totalDose < b.max);
+      doseBands[band] += people;
+      if (band > 0) survivorsExposed += people;
+      if (totalDose < ACUTE_DOSE_THRESHOLD) {
+        collectiveDose.prompt += people * promptDose;
+        collectiveDose.fallout += people * falloutDose;
+      }
+    }
+  }
+
+  // 100 rem = 1 Sv
+  const collectiveDoseSv = (collectiveDose.prompt + collectiveDose.fallout) / 100;
+
+  return {
+    coefficients,
+    survivorsExposed,
+    doseBands,
+    collectiveDose,
+    excessCancers: collectiveDoseSv * coefficients.incidencePerSv,
+    excessCancerDeaths: collectiveDoseSv * coefficients.mortalityPerSv,
+    falloutIncluded,
+  };
+};
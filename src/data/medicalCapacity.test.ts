@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { assessMedicalCapacity, Hospital } from './medicalCapacity';
+import { calculateBlastEffects } from './nuclearWeapons';
+import { testCenter as center } from '@/test/fixtures';
+const medicalBurden = { severeTrauma: 1000, burns: 500, radiationSickness: 200, combinedInjuries: 100 };
+
+// Hospitals 30 km away, well outside the damage rings
+const hospital = (id: string, burnBeds: number | null): Hospital => ({
+  id,
+  name: id,
+  lat: center.lat + 0.27,
+  lng: center.lng,
+  beds: 200,
+  burnBeds,
+  bedsSource: 'tagged',
+});
+
+const burnShortfall = (hospitals: Hospital[]) => assessMedicalCapacity(
+  hospitals, 'fixture', calculateBlastEffects(15), center, medicalBurden
+).shortfalls.find(row => row.label === 'Burn unit beds')!;
+
+describe('assessMedicalCapacity burn beds', () => {
+  it('reports no data when no hospital gives a burn bed count', () => {
+    const row = burnShortfall([hospital('a', null), hospital('b', null)]);
+    expect(row.capacity).toBeNull();
+    expect(row.shortfall).toBeNull();
+  });
+
+  it('counts the hospitals that report burn beds', () => {
+    const row = burnShortfall([hospital('a', 30), hospital('b', null), hospital('c', 0)]);
+    expect(row.capacity).toBe(30);
+    expect(row.shortfall).toBe(470);
+  });
+});
@@ -0,0 +1,251 @@
+import { NuclearWeapon } from './nuclearWeapons';
+import { effectsAtRangeFromBlastEffects } from './effectsAtRange';
+import { FireEffects } from './fireModel';
+import { damageStateAt } from './buildingDamage';
+import { haversineDistance } from './populationDataSources';
+import type { CasualtyData } from './populationCalculations';
+
+// Hospital survival and medical capacity compared against the casualty burden
+
+export interface Hospital {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  beds: number;
+  burnBeds: number | null; // null when no source says whether there is a burn unit
+  bedsSource: 'tagged' | 'assumed';
+}
+
+export type HospitalStatus = 'destroyed' | 'damaged' | 'impaired' | 'intact';
+
+export const HOSPITAL_STATUS_INFO: Record<HospitalStatus, { label: string; color: string; capacity: number }> = {
+  destroyed: { label: 'Destroyed', color: '#7F1D1D', capacity: 0 },
+  damaged: { label: 'Damaged', color: '#EA580C', capacity: 0.5 },
+  impaired: { label: 'Windows out, operating', color: '#EAB308', capacity: 0.9 },
+  intact: { label: 'Intact', color: '#16A34A', capacity: 1 },
+};
+
+export interface HospitalAssessment {
+  hospital: Hospital;
+  distanceKm: number;
+  overpressure: number; // psi
+  status: HospitalStatus;
+  survivingBeds: number;
+  survivingBurnBeds: number | null;
+}
+
+export interface CapacityShortfall {
+  label: string;
+  demand: number;
+  capacity: number | null; // null when no hospital reports this capacity
+  shortfall: number | null;
+}
+
+export interface MedicalCapacity {
+  source: 'osm' | 'fixture';
+  hospitals: HospitalAssessment[];
+  statusCounts: Record<HospitalStatus, number>;
+  shortfalls: CapacityShortfall[];
+}
+
+// Beds assumed when a hospital has no beds tag, about the median US community hospital
+const DEFAULT_HOSPITAL_BEDS = 150;
+
+// Burn beds at hospitals tagged with a burn speciality but no burn bed count
+const DEFAULT_BURN_UNIT_BEDS = 20;
+
+// Share of beds that can be freed for casualties by discharging and postponing other patients
+export const SURGE_BED_SHARE = 0.4;
+
+// Local fixture used when the Overpass API is unavailable: a GeoJSON FeatureCollection of
+// points with name, beds and burn_beds properties; leave burn_beds out where it is not known
+const HOSPITAL_FIXTURE_URL = '/data/hospitals.geojson';
+
+// Hospitals search radius: twice the light damage ring, and at least the catchment of a city
+export const hospitalSearchRadiusKm = (blastEffects: NuclearWeapon['blastEffects']): number => {
+  return Math.max(25, blastEffects.overpressure.psi1 * 2);
+};
+
+const parseBeds = (value: unknown): number | null => {
+  const beds = parseInt(String(value ?? ''), 10);
+  return isNaN(beds) || beds <= 0 ? null : beds;
+};
+
+// Burn beds from a property, where an explicit 0 means the hospital has no burn unit
+const parseBurnBeds = (value: unknown): number | null => {
+  const beds = parseInt(String(value ?? ''), 10);
+  return isNaN(beds) || beds < 0 ? null : beds;
+};
+
+// Hospitals from OpenStreetMap, or null if the request fails
+async function fetchOSMHospitals(lat: number, lng: number, radiusKm: number): Promise<Hospital[] | null> {
+  try {
+    const query = `
+      [out:json][timeout:25];
+      nwr["amenity"="hospital"](around:${radiusKm * 1000},${lat},${lng});
+      out center;
+    `;
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
+
+    const response = await fetch('https://overpass-api.de/api/interpreter', {
+      method: 'POST',
+      body: `data=${encodeURIComponent(query)}`,
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      signal: controller.signal,
+    });
+
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      throw new Error(`OSM API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return data.elements.flatMap((element: any): Hospital[] => {
+      const position = element.center ?? (element.lat !== undefined ? { lat: element.lat, lon: element.lon } : null);
+      if (!position) return [];
+      const tags = element.tags ?? {};
+      const taggedBeds = parseBeds(tags.beds);
+      const speciality = String(tags['healthcare:speciality'] ?? '');
+      return [{
+        id: `${element.type}/${element.id}`,
+        name: tags.name || 'Unnamed hospital',
+        lat: position.lat,
+        lng: position.lon,
+        beds: taggedBeds ?? DEFAULT_HOSPITAL_BEDS,
+        // Burn units are rarely tagged, so an untagged hospital is unknown rather than without one
+        burnBeds: speciality.includes('burn') ? DEFAULT_BURN_UNIT_BEDS : null,
+        bedsSource: taggedBeds === null ? 'assumed' : 'tagged',
+      }];
+    });
+  } catch (error) {
+    console.error('Error fetching OSM hospitals:', error);
+    return null;
+  }
+}
+
+// Hospitals from the local GeoJSON fixture within the search radius, or null if it can't be loaded
+async function fetchFixtureHospitals(lat: number, lng: number, radiusKm: number): Promise<Hospital[] | null> {
+  try {
+    const response = await fetch(HOSPITAL_FIXTURE_URL);
+    if (!response.ok) {
+      throw new Error(`Hospital fixture error: ${response.status}`);
+    }
+
+    const data = await response.json();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return (data.features ?? []).flatMap((feature: any, index: number): Hospital[] => {
+      if (feature.geometry?.type !== 'Point') return [];
+      const [featureLng, featureLat] = feature.geometry.coordinates;
+      if (haversineDistance({ lat, lng }, { lat: featureLat, lng: featureLng }) > radiusKm * 1000) return [];
+      const properties = feature.properties ?? {};
+      const taggedBeds = parseBeds(properties.beds);
+      return [{
+        id: String(feature.id ?? `fixture/${index}`),
+        name: properties.name || 'Unnamed hospital',
+        lat: featureLat,
+        lng: featureLng,
+        beds: taggedBeds ?? DEFAULT_HOSPITAL_BEDS,
+        burnBeds: parseBurnBeds(properties.burn_beds),
+        bedsSource: taggedBeds === null ? 'assumed' : 'tagged',
+      }];
+    });
+  } catch (error) {
+    console.error('Error loading hospital fixture:', error);
+    return null;
+  }
+}
+
+// Hospitals around a location, from OSM with the local fixture as fallback
+export async function fetchHospitals(
+  lat: number,
+  lng: number,
+  radiusKm: number
+): Promise<{ hospitals: Hospital[]; source: MedicalCapacity['source'] } | null> {
+  const osmHospitals = await fetchOSMHospitals(lat, lng, radiusKm);
+  if (osmHospitals) {
+    return { hospitals: osmHospitals, source: 'osm' };
+  }
+
+  const fixtureHospitals = await fetchFixtureHospitals(lat, lng, radiusKm);
+  if (fixtureHospitals) {
+    return { hospitals: fixtureHospitals, source: 'fixture' };
+  }
+
+  return null;
+}
+
+// Status of each hospital and surviving capacity against the casualty burden
+// Hospitals are treated as reinforced concrete buildings; those inside the mass fire zone are lost
+export const assessMedicalCapacity = (
+  hospitals: Hospital[],
+  source: MedicalCapacity['source'],
+  blastEffects: NuclearWeapon['blastEffects'],
+  center: { lat: number; lng: number },
+  medicalBurden: CasualtyData['medicalBurden'],
+  fireEffects?: FireEffects | null
+): MedicalCapacity => {
+  const statusCounts: Record<HospitalStatus, number> = { destroyed: 0, damaged: 0, impaired: 0, intact: 0 };
+
+  const assessments = hospitals.map((hospital): HospitalAssessment => {
+    const distanceKm = haversineDistance(center, hospital) / 1000;
+    const { overpressure } = effectsAtRangeFromBlastEffects(blastEffects, distanceKm);
+    const damage = damageStateAt('reinforced-concrete', overpressure);
+    const inMassFire = fireEffects ? distanceKm <= fireEffects.massFireRadiusKm : false;
+
+    let status: HospitalStatus = 'intact';
+    if (inMassFire || damage === 'severe' || damage === 'collapsed') {
+      status = 'destroyed';
+    } else if (damage === 'moderate') {
+      status = 'damaged';
+    } else if (damage === 'light') {
+      status = 'impaired';
+    }
+    statusCounts[status]++;
+
+    const { capacity } = HOSPITAL_STATUS_INFO[status];
+    return {
+      hospital,
+      distanceKm,
+      overpressure,
+      status,
+      survivingBeds: Math.round(hospital.beds * capacity),
+      survivingBurnBeds: hospital.burnBeds === null ? null : Math.round(hospital.burnBeds * capacity),
+    };
+  }).sort((a, b) => a.distanceKm - b.distanceKm);
+
+  const survivingBeds = assessments.reduce((sum, a) => sum + a.survivingBeds, 0);
+  // Burn capacity counts only hospitals that report it, and is unknown when none do
+  const reportedBurnBeds = assessments.flatMap(a => a.survivingBurnBeds === null ? [] : [a.survivingBurnBeds]);
+  const survivingBurnBeds = reportedBurnBeds.length > 0 ? reportedBurnBeds.reduce((sum, beds) => sum + beds, 0) : null;
+
+  // Burn patients need specialist beds; trauma and radiation sickness compete for the rest
+  const shortfall = (label: string, demand: number, capacity: number | null): CapacityShortfall => ({
+    label,
+    demand,
+    capacity,
+    shortfall: capacity === null ? null : Math.max(0, demand - capacity),
+  });
+
+  return {
+    source,
+    hospitals: assessments,
+    statusCounts,
+    shortfalls: [
+      shortfall(
+        'Hospital beds',
+        medicalBurden.severeTrauma + medicalBurden.radiationSickness,
+        Math.round(survivingBeds * SURGE_BED_SHARE)
+      ),
+      shortfall('Burn unit beds', medicalBurden.burns, survivingBurnBeds),
+    ],
+  };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculateBlastEffects,
+  createCustomWeapon,
+  formatYield,
+  getWeaponDesignParameters,
+  parseWeaponDesignOverrides,
+} from './nuclearWeapons';
+import { calculateCasualties } from './populationCalculations';
+import { applyBurialToBlastEffects, ventedFraction } from './cratering';
+import { uniformDensity } from '@/test/fixtures';
+
+const denseCity = uniformDensity(5000);
+const monteCarlo = { runs: 0, seed: 1 };
+
+describe('calculateBlastEffects fireball', () => {
+  it('has no ground radius or casualties when the burst clears it', () => {
+    [[1000, 400000], [15, 1500]].forEach(([yieldKt, height]) => {
+      const effects = calculateBlastEffects(yieldKt, height);
+      expect(effects.fireball).toBe(0);
+      const casualties = calculateCasualties(effects, denseCity, undefined, { monteCarlo });
+      const fireball = casualties.estimates.find(e => e.zone === 'Fireball')!;
+      expect(fireball.fatalities).toBe(0);
+      expect(fireball.populationAffected).toBe(0);
+    });
+  });
+
+  it('uses the ground intersection of a low burst', () => {
+    const full = calculateBlastEffects(15, 'surface').fireball;
+    expect(calculateBlastEffects(15, 100).fireball).toBeCloseTo(Math.sqrt(full ** 2 - 100 ** 2), 6);
+    expect(calculateBlastEffects(15, 'airburst').fireball).toBe(full);
+  });
+});
+
+describe('custom device design overrides', () => {
+  it('replaces the design defaults with the values given', () => {
+    const weapon = createCustomWeapon(100, 'airburst', 'thermonuclear', parseWeaponDesignOverrides('0.8', '2'));
+    expect(getWeaponDesignParameters(weapon)).toEqual({ fissionFraction: 0.8, neutronGammaRatio: 2 });
+  });
+
+  it('keeps the design defaults for blank or out of range values', () => {
+    expect(parseWeaponDesignOverrides(null, '')).toEqual({});
+    expect(parseWeaponDesignOverrides('1.5', '-1')).toEqual({});
+    expect(parseWeaponDesignOverrides('abc', '0')).toEqual({ neutronGammaRatio: 0 });
+  });
+});
+
+describe('buried bursts', () => {
+  const surface = calculateBlastEffects(100, 'surface');
+
+  it('keeps surface effects for a contact burst and shrinks them with depth', () => {
+    expect(applyBurialToBlastEffects(surface, 100, 0)).toBe(surface);
+    const shallow = applyBurialToBlastEffects(surface, 100, 50);
+    const deep = applyBurialToBlastEffects(surface, 100, 200);
+    expect(deep.overpressure.psi5).toBeLessThan(shallow.overpressure.psi5);
+    expect(shallow.overpressure.psi5).toBeLessThan(surface.overpressure.psi5);
+    expect(deep.thermal.thirdDegree).toBeLessThan(shallow.thermal.thirdDegree);
+    expect(deep.radiation.rem500).toBeLessThan(shallow.radiation.rem500);
+  });
+
+  it('has no surface effects or casualties once fully contained', () => {
+    expect(ventedFraction(100, 400)).toBe(0);
+    const contained = applyBurialToBlastEffects(surface, 100, 400);
+    expect(contained.fireball).toBe(0);
+    expect(Object.values(contained.overpressure)).toEqual([0, 0, 0, 0]);
+    expect(Object.values(contained.thermal)).toEqual([0, 0, 0]);
+    expect(contained.radiation).toEqual({ rem500: 0, rem100: 0 });
+    const { totals } = calculateCasualties(contained, denseCity, undefined, { monteCarlo });
+    expect(totals).toEqual({ populationAffected: 0, fatalities: 0, injuries: 0 });
+  });
+});
+
+describe('formatYield', () => {
+  it('shows 3 significant figures in kt or Mt', () => {
+    expect(formatYield(0.02)).toBe('0.02 kt');
+    expect(formatYield(123.456)).toBe('123 kt');
+    expect(formatYield(999.6)).toBe('1 Mt');
+    expect(formatYield(1234.5)).toBe('1.23 Mt');
+    expect(formatYield(15000)).toBe('15 Mt');
+    expect(createCustomWeapon(12.3456).name).toBe('Custom 12.3 kt device');
+  });
+});
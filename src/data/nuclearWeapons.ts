@@ -1,3 +1,10 @@
+import { overpressureRadiiAtHeight } from './heightOfBurst';
+import { FalloutParameters, falloutDoseRateAt, falloutArrivalTime } from './falloutModel';
+import type { CraterDimensions } from './cratering';
+
+// Weapon design families, used for prompt radiation output and fission share of the yield
+export type WeaponDesign = 'gun' | 'implosion' | 'boosted' | 'thermonuclear' | 'enhanced-radiation';
+
 export interface NuclearWeapon {
   id: string;
   name: string;
@@ -5,10 +12,14 @@ export interface NuclearWeapon {
   country: string;
   year?: number;
   description: string;
-  category: 'historical' | 'tactical' | 'strategic' | 'test';
+  category: 'historical' | 'tactical' | 'strategic' | 'test' | 'custom';
+  // Optional design parameters, defaults come from the design (see getWeaponDesignParameters)
+  design?: WeaponDesign;
+  fissionFraction?: number; // 0-1, share of the yield from fission
+  neutronGammaRatio?: number; // prompt neutron to gamma dose ratio near the lethal radius
   // Detailed blast effects data
   blastEffects: {
-    fireball: number; // radius in meters
+    fireball: number; // radius in meters on the ground, 0 when the fireball clears the ground
     overpressure: {
       psi20: number; // complete destruction of reinforced concrete structures
       psi5: number;  // collapse of most residential buildings, severe injuries
@@ -24,6 +35,7 @@ export interface NuclearWeapon {
       rem500: number; // LD50/60 - lethal to 50% within 60 days
       rem100: number; // radiation sickness, increased cancer risk
     };
+    crater?: CraterDimensions; // surface and subsurface bursts only, all in meters
   };
   // Optional variable yield configurations
   variableYields?: number[];
@@ -31,39 +43,172 @@ export interface NuclearWeapon {
   burstInfo?: {
     typical: 'airburst' | 'groundburst';
     height?: number; // typical burst height in meters
+    depth?: number; // depth of a buried burst in meters
   };
 }
 
 // Height of Burst types
-export type HeightOfBurst = 'airburst' | 'surface';
+// 'airburst' is the legacy optimized airburst, 'surface' is a contact burst,
+// and a number is an explicit burst height in meters
+export type HeightOfBurst = 'airburst' | 'surface' | number;
+
+// Burst height in meters, or null for the optimized airburst
+export const getBurstHeightMeters = (hob: HeightOfBurst): number | null => {
+  if (hob === 'airburst') return null;
+  if (hob === 'surface') return 0;
+  return Math.max(0, hob);
+};
+
+// Parse a height of burst from a URL parameter ('airburst', 'surface' or meters)
+export const parseHeightOfBurst = (value: string | null): HeightOfBurst => {
+  if (value === 'surface') return 'surface';
+  const height = parseFloat(value || '');
+  return isNaN(height) ? 'airburst' : Math.max(0, height);
+};
+
+// Fireball radius in meters
+// For yields < 100 kT: R = 145 * Y^0.4 meters
+// For yields >= 100 kT: adjust scaling to account for atmospheric effects
+const calculateFireballRadius = (yieldKt: number): number => {
+  if (yieldKt < 100) {
+    return 145 * Math.pow(yieldKt, 0.4);
+  }
+  // Slightly reduced scaling for very large yields due to atmospheric effects
+  return 90 * Math.pow(yieldKt, 0.4);
+};
+
+// Convert a slant range to a ground range for an elevated burst (both in km)
+const slantToGroundRange = (slantRangeKm: number, heightKm: number): number => {
+  return Math.sqrt(Math.max(0, slantRangeKm * slantRangeKm - heightKm * heightKm));
+};
+
+// Radius (meters) of the circle where the fireball meets the ground, the full radius for the
+// optimized airburst whose height is not modeled
+const fireballGroundRadius = (yieldKt: number, burstHeight: number | null): number => {
+  const radius = calculateFireballRadius(yieldKt);
+  if (burstHeight === null) return radius;
+  return burstHeight >= radius ? 0 : Math.sqrt(radius * radius - burstHeight * burstHeight);
+};
+
+// Fraction of the way from a burst whose fireball clears the ground (0) to a contact burst (1)
+// Also used as the share of radioactivity deposited as local fallout
+export const calculateGroundCoupling = (yieldKt: number, hob: HeightOfBurst): number => {
+  const burstHeight = getBurstHeightMeters(hob);
+  if (burstHeight === null) return 0;
+  return Math.max(0, 1 - burstHeight / calculateFireballRadius(yieldKt));
+};
+
+// Height of burst implied by a weapon's typical delivery, defaulting to an optimized airburst
+export const getWeaponHeightOfBurst = (weapon: NuclearWeapon): HeightOfBurst => {
+  if (!weapon.burstInfo) return 'airburst';
+  if (weapon.burstInfo.typical === 'groundburst') return 'surface';
+  return weapon.burstInfo.height ?? 'airburst';
+};
+
+// Share of the yield from fission when a weapon does not specify one
+export const DEFAULT_FISSION_FRACTION = 0.5;
+
+// Prompt neutron to gamma dose ratio the radiation scaling formulas are calibrated for
+export const REFERENCE_NEUTRON_GAMMA_RATIO = 0.1;
+
+// Typical parameters for each design family
+export const WEAPON_DESIGNS: Record<WeaponDesign, { label: string; fissionFraction: number; neutronGammaRatio: number }> = {
+  'gun': { label: 'Gun-type fission', fissionFraction: 1.0, neutronGammaRatio: 0.2 },
+  'implosion': { label: 'Implosion fission', fissionFraction: 1.0, neutronGammaRatio: 0.1 },
+  'boosted': { label: 'Boosted fission', fissionFraction: 0.95, neutronGammaRatio: 0.15 },
+  'thermonuclear': { label: 'Thermonuclear', fissionFraction: 0.5, neutronGammaRatio: 0.1 },
+  'enhanced-radiation': { label: 'Enhanced radiation (neutron bomb)', fissionFraction: 0.5, neutronGammaRatio: 5 },
+};
+
+// Design parameters for a weapon, filling in whatever the entry leaves unspecified
+export const getWeaponDesignParameters = (
+  weapon: NuclearWeapon
+): { fissionFraction: number; neutronGammaRatio: number } => {
+  const defaults = weapon.design ? WEAPON_DESIGNS[weapon.design] : null;
+  return {
+    fissionFraction: weapon.fissionFraction ?? defaults?.fissionFraction ?? DEFAULT_FISSION_FRACTION,
+    neutronGammaRatio: weapon.neutronGammaRatio ?? defaults?.neutronGammaRatio ?? REFERENCE_NEUTRON_GAMMA_RATIO,
+  };
+};
+
+// Parse a weapon design from a URL parameter
+export const parseWeaponDesign = (value: string | null): WeaponDesign => {
+  return value && value in WEAPON_DESIGNS ? value as WeaponDesign : 'thermonuclear';
+};
+
+// Largest prompt neutron to gamma dose ratio accepted for a custom device
+export const MAX_NEUTRON_GAMMA_RATIO = 10;
+
+// Design parameters set by hand for a custom device, overriding its design's defaults
+export type WeaponDesignOverrides = Partial<Pick<NuclearWeapon, 'fissionFraction' | 'neutronGammaRatio'>>;
+
+// Parse design overrides from numbers as typed or URL parameters, dropping blanks and values out of range
+export const parseWeaponDesignOverrides = (
+  fissionFraction: string | null,
+  neutronGammaRatio: string | null
+): WeaponDesignOverrides => {
+  const fission = fissionFraction ? Number(fissionFraction) : NaN;
+  const ratio = neutronGammaRatio ? Number(neutronGammaRatio) : NaN;
+  return {
+    ...(fission >= 0 && fission <= 1 ? { fissionFraction: fission } : {}),
+    ...(ratio >= 0 && ratio <= MAX_NEUTRON_GAMMA_RATIO ? { neutronGammaRatio: ratio } : {}),
+  };
+};
+
+// Prompt radiation radii when the total dose is multiplied by doseMultiplier
+// Radii shift by the relaxation length implied by the 500 and 100 rem radii, matching the
+// exponential attenuation used in effectsAtRange
+export const scaleRadiationDose = (
+  radiation: NuclearWeapon['blastEffects']['radiation'],
+  doseMultiplier: number
+): NuclearWeapon['blastEffects']['radiation'] => {
+  if (doseMultiplier <= 0) return { rem500: 0, rem100: 0 };
+  const { rem500, rem100 } = radiation;
+  if (doseMultiplier === 1 || rem500 <= 0 || rem100 <= rem500) return radiation;
+
+  const relaxationLength = (rem100 - rem500) / Math.log(500 / 100);
+  const shift = relaxationLength * Math.log(doseMultiplier);
+  return {
+    rem500: Math.max(0, rem500 + shift),
+    rem100: Math.max(0, rem100 + shift),
+  };
+};
+
+// Prompt radiation radii for a weapon whose neutron output differs from the reference mix
+// The total dose scales with (1 + n/γ)
+export const applyWeaponDesignToBlastEffects = (
+  blastEffects: NuclearWeapon['blastEffects'],
+  weapon: NuclearWeapon
+): NuclearWeapon['blastEffects'] => {
+  const { neutronGammaRatio } = getWeaponDesignParameters(weapon);
+  if (neutronGammaRatio === REFERENCE_NEUTRON_GAMMA_RATIO) return blastEffects;
+
+  const doseMultiplier = (1 + neutronGammaRatio) / (1 + REFERENCE_NEUTRON_GAMMA_RATIO);
+  const radiation = scaleRadiationDose(blastEffects.radiation, doseMultiplier);
+  return radiation === blastEffects.radiation ? blastEffects : { ...blastEffects, radiation };
+};
 
 // More accurate scaling formulas based on Glasstone & Dolan and NUKEMAP methodology
 // These assume an optimized airburst unless otherwise specified
 export const calculateBlastEffects = (yieldKt: number, hob: HeightOfBurst = 'airburst'): NuclearWeapon['blastEffects'] => {
-  // Surface bursts reduce thermal and increase local radiation effects
-  const surfaceBurstFactor = hob === 'surface' ? 0.7 : 1.0; // Thermal reduction for surface burst
-  const radiationEnhancement = hob === 'surface' ? 1.5 : 1.0; // Enhanced local radiation for surface burst
+  const burstHeight = getBurstHeightMeters(hob);
+  const fireballRadius = fireballGroundRadius(yieldKt, burstHeight);
   
-  // Fireball radius calculation
-  // For yields < 100 kT: R = 145 * Y^0.4 meters
-  // For yields >= 100 kT: adjust scaling to account for atmospheric effects
-  let fireballRadius: number;
-  if (yieldKt < 100) {
-    fireballRadius = 145 * Math.pow(yieldKt, 0.4);
-  } else {
-    // Slightly reduced scaling for very large yields due to atmospheric effects
-    fireballRadius = 90 * Math.pow(yieldKt, 0.4);
-  }
+  // Surface bursts reduce thermal and increase local radiation effects, tapering off with height
+  const groundCoupling = calculateGroundCoupling(yieldKt, hob);
+  const surfaceBurstFactor = 1.0 - 0.3 * groundCoupling; // Thermal reduction for surface burst
+  const radiationEnhancement = 1.0 + 0.5 * groundCoupling; // Enhanced local radiation for surface burst
   
   // Blast overpressure radii (in km)
-  // Using more accurate scaling with proper constants
+  // Optimized airbursts use the peak of each height-of-burst curve (each psi level at its own optimum);
+  // explicit heights read the ground range off the scaled curves
   const blastScaling = Math.pow(yieldKt, 0.33);
-  const overpressure = {
+  const overpressure = burstHeight === null ? {
     psi20: 0.41 * blastScaling,  // Complete destruction of reinforced concrete
     psi5: 0.98 * blastScaling,   // Collapse of most residential buildings
     psi2: 1.91 * blastScaling,   // Moderate damage to houses
     psi1: 3.12 * blastScaling    // Light damage, window breakage
-  };
+  } : overpressureRadiiAtHeight(yieldKt, burstHeight);
   
   // Thermal radiation radii (in km)
   // Using Y^0.41 scaling as per scientific literature
@@ -82,6 +227,17 @@ export const calculateBlastEffects = (yieldKt: number, hob: HeightOfBurst = 'air
     rem100: 0.82 * radiationScaling * radiationEnhancement   // Radiation sickness
   };
   
+  // Explicit burst heights treat thermal and radiation radii as slant ranges
+  if (burstHeight !== null) {
+    const heightKm = burstHeight / 1000;
+    (Object.keys(thermal) as Array<keyof typeof thermal>).forEach(key => {
+      thermal[key] = slantToGroundRange(thermal[key], heightKm);
+    });
+    (Object.keys(radiation) as Array<keyof typeof radiation>).forEach(key => {
+      radiation[key] = slantToGroundRange(radiation[key], heightKm);
+    });
+  }
+  
   return {
     fireball: fireballRadius,
     overpressure,
@@ -90,6 +246,93 @@ export const calculateBlastEffects = (yieldKt: number, hob: HeightOfBurst = 'air
   };
 };
 
+// Protection factors for common sheltering postures against fallout gamma radiation
+export const FALLOUT_PROTECTION_FACTORS = [
+  { label: 'Outdoors', value: 1 },
+  { label: 'Vehicle', value: 2 },
+  { label: 'Wood-frame house, ground floor', value: 3 },
+  { label: 'Brick building, interior room', value: 10 },
+  { label: 'Basement', value: 40 },
+  { label: 'Purpose-built fallout shelter', value: 200 },
+];
+
+// Time-integrated fallout dose (rem) using the Way-Wigner t^-1.2 decay law
+// R(t) = R1 * t^-1.2, so the dose from ta to tb is 5 * R1 * (ta^-0.2 - tb^-0.2)
+// Dose rates are in rad/hr at H+1; for fallout gamma 1 rad is taken as 1 rem
+export const calculateFalloutDose = (
+  doseRateH1: number,
+  arrivalHours: number,
+  departureHours: number,
+  protectionFactor: number = 1
+): number => {
+  const start = Math.max(arrivalHours, 0.25); // The decay law is not valid in the first minutes
+  if (doseRateH1 <= 0 || departureHours <= start) return 0;
+  const dose = 5 * doseRateH1 * (Math.pow(start, -0.2) - Math.pow(departureHours, -0.2));
+  return dose / Math.max(1, protectionFactor);
+};
+
+// Fallout dose (rem) for someone staying at a point between two times after the burst
+// Exposure starts when the fallout arrives if that is later than the arrival time given
+export const calculateFalloutDoseAtPoint = (
+  params: FalloutParameters,
+  center: { lat: number; lng: number },
+  point: { lat: number; lng: number },
+  arrivalHours: number,
+  departureHours: number,
+  protectionFactor: number = 1
+): { doseRateH1: number; falloutArrival: number; dose: number } => {
+  const doseRateH1 = falloutDoseRateAt(params, center, point);
+  const falloutArrival = falloutArrivalTime(params, center, point);
+  const dose = calculateFalloutDose(
+    doseRateH1,
+    Math.max(arrivalHours, falloutArrival),
+    departureHours,
+    protectionFactor
+  );
+  return { doseRateH1, falloutArrival, dose };
+};
+
+// Custom device limits (kilotons) - 10 tons to 100 megatons
+export const CUSTOM_YIELD_MIN_KT = 0.01;
+export const CUSTOM_YIELD_MAX_KT = 100000;
+export const CUSTOM_WEAPON_ID = 'custom';
+
+// Format a yield in kilotons for display, to 3 significant figures
+export const formatYield = (yieldKt: number): string => {
+  const rounded = Number(yieldKt.toPrecision(3));
+  return rounded >= 1000 ? `${Number((rounded / 1000).toPrecision(3))} Mt` : `${rounded} kt`;
+};
+
+// Build a weapon entry for an arbitrary yield, with effects computed from the scaling model
+export const createCustomWeapon = (
+  yieldKt: number,
+  hob: HeightOfBurst = 'airburst',
+  design: WeaponDesign = 'thermonuclear',
+  overrides: WeaponDesignOverrides = {}
+): NuclearWeapon => {
+  const clampedYield = Math.min(CUSTOM_YIELD_MAX_KT, Math.max(CUSTOM_YIELD_MIN_KT, yieldKt));
+  const burstHeight = getBurstHeightMeters(hob);
+  const burstLabel = burstHeight === null
+    ? 'optimized airburst'
+    : burstHeight === 0 ? 'surface burst' : `burst at ${burstHeight.toFixed(0)} m`;
+  
+  return {
+    id: CUSTOM_WEAPON_ID,
+    name: `Custom ${formatYield(clampedYield)} device`,
+    yield: clampedYield,
+    country: 'Custom',
+    description: `User-defined ${WEAPON_DESIGNS[design].label.toLowerCase()} ${burstLabel} with effects from scaling formulas`,
+    category: 'custom',
+    design,
+    ...overrides,
+    blastEffects: calculateBlastEffects(clampedYield, hob),
+    burstInfo: {
+      typical: burstHeight === 0 ? 'groundburst' : 'airburst',
+      ...(burstHeight ? { height: burstHeight } : {})
+    }
+  };
+};
+
 // Alternative calculation using the 2.5 kT reference scaling
 // r_thermal = Y^0.41 * C_th, r_blast = Y^0.33 * C_bl, r_radiation = Y^0.19 * C_rad
 // Where Y is in multiples of 2.5 kT and results are in km
@@ -126,6 +369,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1945,
     description: 'First nuclear weapon used in warfare, dropped on Hiroshima - uranium gun-type design, airburst at ~600m',
     category: 'historical',
+    design: 'gun',
     blastEffects: {
       fireball: 150,
       overpressure: {
@@ -157,6 +401,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1945,
     description: 'Second nuclear weapon used in warfare, dropped on Nagasaki - plutonium implosion design, airburst at ~500m',
     category: 'historical',
+    design: 'implosion',
     blastEffects: {
       fireball: 180,
       overpressure: {
@@ -188,6 +433,8 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1954,
     description: 'Largest US nuclear test at Bikini Atoll - surface burst, massive fallout over 7,000 sq miles',
     category: 'test',
+    design: 'thermonuclear',
+    fissionFraction: 0.67, // About 10 of the 15 Mt came from fission
     blastEffects: {
       fireball: 4500,  // 4-5 km across
       overpressure: {
@@ -219,6 +466,8 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1961,
     description: 'Largest nuclear weapon ever tested, reduced from 100 Mt design',
     category: 'test',
+    design: 'thermonuclear',
+    fissionFraction: 0.03, // Lead tamper replaced the uranium one, almost all fusion
     blastEffects: {
       fireball: 3500,
       overpressure: {
@@ -252,6 +501,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1961,
     description: 'Smallest US nuclear weapon, man-portable recoilless rifle - radiation kills within 160m',
     category: 'tactical',
+    design: 'implosion',
     blastEffects: {
       fireball: 13,
       overpressure: {
@@ -284,6 +534,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 2022,
     description: 'Modern guided nuclear bomb with dial-a-yield (0.3-50 kt), high accuracy',
     category: 'tactical',
+    design: 'thermonuclear',
     blastEffects: {
       fireball: 400,
       overpressure: {
@@ -311,6 +562,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'USA',
     description: 'Variable yield bomb, typical tactical setting',
     category: 'tactical',
+    design: 'thermonuclear',
     blastEffects: {
       fireball: 152,
       overpressure: {
@@ -337,6 +589,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'USA',
     description: 'Variable yield bomb, maximum tactical setting',
     category: 'tactical',
+    design: 'thermonuclear',
     blastEffects: {
       fireball: 250,
       overpressure: {
@@ -356,6 +609,17 @@ export const nuclearWeapons: NuclearWeapon[] = [
       }
     }
   },
+  {
+    id: 'w70-mod3',
+    name: 'W70 Mod 3',
+    yield: 1,
+    country: 'USA',
+    year: 1981,
+    description: 'Enhanced-radiation (neutron) warhead for the Lance missile - prompt neutrons are the primary kill mechanism',
+    category: 'tactical',
+    design: 'enhanced-radiation',
+    blastEffects: calculateBlastEffects(1)
+  },
 
   // Modern Strategic Weapons
   {
@@ -365,6 +629,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'USA',
     description: 'Most common US warhead, Trident submarine-launched',
     category: 'strategic',
+    design: 'thermonuclear',
     blastEffects: calculateBlastEffects(100)
   },
   {
@@ -374,6 +639,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'USA',
     description: 'Minuteman III ICBM warhead',
     category: 'strategic',
+    design: 'thermonuclear',
     blastEffects: calculateBlastEffects(300)
   },
   {
@@ -384,6 +650,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1989,
     description: 'Most powerful US warhead, Trident II SLBM MIRV - thermonuclear',
     category: 'strategic',
+    design: 'thermonuclear',
     blastEffects: {
       fireball: 900,  // 0.8-1 km
       overpressure: {
@@ -411,6 +678,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1960,
     description: 'Highest yield US bomb ever deployed - three-stage thermonuclear, retired 1976',
     category: 'historical',
+    design: 'thermonuclear',
     blastEffects: {
       fireball: 2000,  // ~4 km diameter
       overpressure: {
@@ -438,6 +706,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1983,
     description: 'Highest yield US weapon in active service - variable yield gravity bomb',
     category: 'strategic',
+    design: 'thermonuclear',
     blastEffects: {
       fireball: 1150,  // ~2.3 km diameter
       overpressure: {
@@ -468,6 +737,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1949,
     description: 'First Soviet nuclear weapon test - plutonium implosion design',
     category: 'historical',
+    design: 'implosion',
     blastEffects: calculateBlastEffects(22)
   },
   {
@@ -477,6 +747,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'Soviet Union',
     description: 'Heavy ICBM single warhead variant "Satan" - highest yield deployed after Tsar Bomba',
     category: 'strategic',
+    design: 'thermonuclear',
     blastEffects: {
       fireball: 2300,  // ~4.6 km diameter
       overpressure: {
@@ -504,6 +775,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1955,
     description: 'First Soviet thermonuclear weapon test (designed for 3 MT)',
     category: 'test',
+    design: 'thermonuclear',
     blastEffects: calculateBlastEffects(1600)
   },
   {
@@ -513,6 +785,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'Russia',
     description: 'Heavy ICBM warhead, up to 10 per missile',
     category: 'strategic',
+    design: 'thermonuclear',
     blastEffects: calculateBlastEffects(750)
   },
   {
@@ -522,6 +795,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'Russia',
     description: 'Modern Russian ICBM warhead',
     category: 'strategic',
+    design: 'thermonuclear',
     blastEffects: calculateBlastEffects(800)
   },
 
@@ -533,6 +807,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'China',
     description: 'Chinese ICBM warhead, 4 megaton class',
     category: 'strategic',
+    design: 'thermonuclear',
     blastEffects: {
       fireball: 570,
       overpressure: {
@@ -559,6 +834,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'China',
     description: 'Modern Chinese MIRV warhead',
     category: 'strategic',
+    design: 'thermonuclear',
     blastEffects: calculateBlastEffects(250)
   },
 
@@ -571,6 +847,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1957,
     description: 'Largest UK boosted fission test',
     category: 'test',
+    design: 'boosted',
     blastEffects: calculateBlastEffects(720)
   },
   
@@ -582,6 +859,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'France',
     description: 'Early French nuclear bomb',
     category: 'strategic',
+    design: 'implosion',
     blastEffects: calculateBlastEffects(60)
   },
   {
@@ -591,6 +869,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     country: 'France',
     description: 'French thermonuclear MIRV warhead',
     category: 'strategic',
+    design: 'thermonuclear',
     blastEffects: calculateBlastEffects(110)
   },
   
@@ -603,6 +882,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1967,
     description: 'First Chinese thermonuclear weapon test',
     category: 'test',
+    design: 'thermonuclear',
     blastEffects: calculateBlastEffects(3300)
   },
   
@@ -615,6 +895,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1998,
     description: 'Indian thermonuclear test device (claimed yield disputed)',
     category: 'test',
+    design: 'thermonuclear',
     blastEffects: calculateBlastEffects(45)
   },
   {
@@ -634,6 +915,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 1998,
     description: 'Largest Pakistani nuclear test (estimated yield varies)',
     category: 'test',
+    design: 'boosted',
     blastEffects: calculateBlastEffects(25)
   },
   {
@@ -662,6 +944,7 @@ export const nuclearWeapons: NuclearWeapon[] = [
     year: 2017,
     description: 'Largest North Korean test - claimed two-stage H-bomb design',
     category: 'test',
+    design: 'thermonuclear',
     blastEffects: {
       fireball: 650,  // 0.6-0.7 km
       overpressure: {
@@ -801,17 +1084,26 @@ export const effectDescriptions = {
     rem100: 'Acute radiation syndrome likely, increased lifetime cancer risk'
   },
   fireball: 'Zone of complete vaporization - everything within this radius is destroyed by extreme heat',
+  crater: {
+    apparentRadius: 'Crater - ground excavated and thrown out',
+    lipRadius: 'Crater lip - buried under ejecta, total destruction',
+    groundShockRadius: 'Ground shock - buried structures and utilities severely damaged'
+  },
   heightOfBurst: {
     airburst: 'Maximizes blast and thermal effects over wide area',
-    surface: 'Maximizes ground shock and cratering'
+    surface: 'Maximizes ground shock and cratering',
+    subsurface: 'Buried burst - larger crater and ground shock, effects treated as a surface burst above ground',
+    custom: 'Burst height in meters - each overpressure follows its scaled height-of-burst curve'
   }
 };
 
 // Model assumptions and limitations
 export const modelAssumptions = {
-  conditions: 'Clear atmospheric conditions, no precipitation',
+  conditions: 'Clear atmospheric conditions, no precipitation', // Default only, see describeWeatherConditions
   terrain: 'Flat terrain with no significant obstructions',
   heightOfBurst: 'Optimized airburst for maximum blast damage unless otherwise specified',
+  // Shown for buried bursts, see applyBurialToBlastEffects
+  subsurface: 'Buried bursts keep only the share of airblast, thermal, prompt radiation and fallout that vents, none once fully contained; ground shock beyond the crater is not modelled',
   population: 'Effects on structures and unprotected individuals in the open',
   limitations: [
     'Actual effects may vary significantly based on local conditions',
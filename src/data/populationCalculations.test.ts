@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCasualties, CasualtyData, PopulationData } from './populationCalculations';
+import { calculateBlastEffects, NuclearWeapon } from './nuclearWeapons';
+import type { FireEffects } from './fireModel';
+import { testCenter as center, tiedBlastEffects as tiedEffects, uniformDensity as densityOnly, uniformGrid } from '@/test/fixtures';
+
+const monteCarlo = { runs: 10, seed: 1 };
+
+const uniformDensity: PopulationData = densityOnly(5000);
+
+// Every mechanism covers ground zero, with the mass fire inside the thermal and blast zones
+const overlappingEffects: NuclearWeapon['blastEffects'] = {
+  fireball: 600,
+  overpressure: { psi20: 1.5, psi5: 3.5, psi2: 6, psi1: 10 },
+  thermal: { thirdDegree: 7, secondDegree: 9, firstDegree: 12 },
+  radiation: { rem500: 2.2, rem100: 2.8 },
+};
+
+const overlappingFire: FireEffects = {
+  ignition: [],
+  massFireRadiusKm: 6,
+  meanFuelLoading: 40,
+  fuelSource: 'default',
+  firestorm: false,
+  fatalityRate: 0.5,
+};
+
+const totalInjuries = (injuries: { severe: number; moderate: number; light: number }) =>
+  injuries.severe + injuries.moderate + injuries.light;
+
+// Totals are summed from rounded values, so allow one person per summand
+const expectTotalsMatchByAge = (casualties: CasualtyData) => {
+  const { totals, byAge, estimates } = casualties;
+  const tolerance = byAge.length + estimates.length;
+  expect(Math.abs(byAge.reduce((sum, a) => sum + a.fatalities, 0) - totals.fatalities)).toBeLessThanOrEqual(tolerance);
+  expect(Math.abs(byAge.reduce((sum, a) => sum + totalInjuries(a.injuries), 0) - totals.injuries)).toBeLessThanOrEqual(3 * tolerance);
+  expect(Math.abs(byAge.reduce((sum, a) => sum + a.populationAffected, 0) - totals.populationAffected)).toBeLessThanOrEqual(tolerance);
+};
+
+const expectCasualtiesWithinAffected = (casualties: CasualtyData) => {
+  const { totals } = casualties;
+  expect(totals.fatalities).toBeGreaterThan(0);
+  expect(totals.fatalities + totals.injuries).toBeLessThanOrEqual(totals.populationAffected + 1);
+  casualties.byAge.forEach(age => {
+    expect(age.fatalities + totalInjuries(age.injuries)).toBeLessThanOrEqual(age.populationAffected + 1);
+  });
+};
+
+describe('calculateCasualties', () => {
+  describe.each([
+    ['density rings', uniformDensity],
+    ['population grid', { ...uniformDensity, populationGrid: uniformGrid(center, 5000, 200) }],
+  ])('with %s', (_, populationData) => {
+    it('reports every zone when radii are equal', () => {
+      const casualties = calculateCasualties(tiedEffects, populationData, center, { monteCarlo });
+      const zones = casualties.estimates.map(e => e.zone);
+      expect(zones).toEqual(['Fireball', 'Blast', 'Thermal burns', 'Prompt radiation']);
+
+      const tied = casualties.estimates.filter(e => e.zone !== 'Fireball');
+      tied.forEach(estimate => {
+        expect(estimate.radius).toBe(3000);
+        expect(estimate.populationAffected).toBe(tied[0].populationAffected);
+      });
+      expect(tied.every(e => e.fatalities + totalInjuries(e.injuries) > 0)).toBe(true);
+      expectCasualtiesWithinAffected(casualties);
+      expectTotalsMatchByAge(casualties);
+    });
+
+    it('counts each person once when mechanisms overlap', () => {
+      const casualties = calculateCasualties(overlappingEffects, populationData, center, {
+        fireEffects: overlappingFire,
+        monteCarlo,
+      });
+      expect(casualties.estimates.map(e => e.zone)).toEqual(
+        ['Fireball', 'Blast', 'Thermal burns', 'Prompt radiation', 'Mass fire']
+      );
+      expectCasualtiesWithinAffected(casualties);
+      expectTotalsMatchByAge(casualties);
+
+      // Nobody inside the fireball survives, and nobody there is attributed to another mechanism twice
+      const fireball = casualties.estimates.find(e => e.zone === 'Fireball')!;
+      const fireballPopulation = 5000 * Math.PI * 0.6 ** 2;
+      expect(fireball.fatalities).toBeLessThanOrEqual(fireballPopulation * 1.05);
+      expect(casualties.totals.fatalities).toBeLessThan(casualties.totals.populationAffected);
+    });
+  });
+
+  it('gives the same totals from rings and a fine grid', () => {
+    const rings = calculateCasualties(tiedEffects, uniformDensity, center, { monteCarlo });
+    const grid = calculateCasualties(tiedEffects, { ...uniformDensity, populationGrid: uniformGrid(center, 5000, 100) }, center, { monteCarlo });
+    expect(grid.totals.fatalities).toBeCloseTo(rings.totals.fatalities, -3);
+    expect(grid.totals.populationAffected / rings.totals.populationAffected).toBeCloseTo(1, 1);
+  });
+
+  // Large bursts spread the Monte Carlo bins over tens of km, while the fireball stays small
+  it.each([
+    ['density rings', uniformDensity],
+    ['population grid', { ...uniformDensity, populationGrid: uniformGrid(center, 5000, 400) }],
+  ])('brackets the central estimate of a large burst with %s', (_, populationData) => {
+    const casualties = calculateCasualties(calculateBlastEffects(1000, 'surface'), populationData, center, {
+      monteCarlo: { runs: 200, seed: 1 },
+    });
+    const { uncertainty, totals } = casualties;
+    [
+      { range: uncertainty!.fatalities, central: totals.fatalities },
+      { range: uncertainty!.injuries, central: totals.injuries },
+    ].forEach(({ range, central }) => {
+      expect(range.p5).toBeLessThan(central);
+      expect(range.p95).toBeGreaterThan(central);
+      expect(Math.abs(range.median / central - 1)).toBeLessThan(0.15);
+    });
+  });
+});
@@ -1,8 +1,44 @@
 import { 
   fetchRealPopulationData, 
-  calculateCasualtiesWithRealData,
-  PopulationGrid 
+  haversineDistance,
+  PopulationGrid,
+  PopulationSource
 } from './populationDataSources';
+import type { NuclearWeapon } from './nuclearWeapons';
+import type { FireEffects } from './fireModel';
+import { ScenarioTime, DEFAULT_SCENARIO_TIME, applyScenarioTime } from './scenarioTime';
+import { EffectsAtRange, effectsAtRangeFromBlastEffects } from './effectsAtRange';
+import {
+  ShelterPosture,
+  ShelterScenario,
+  ProtectionFactors,
+  SHELTER_POSTURES,
+  SHELTER_POSTURE_ORDER,
+  DEFAULT_SHELTER_SCENARIO,
+  effectivePostureFractions,
+} from './shelterPosture';
+import {
+  AgeBracket,
+  Demographics,
+  AGE_BRACKETS,
+  AGE_BRACKET_LABELS,
+  AGE_VULNERABILITY,
+  DEFAULT_DEMOGRAPHICS,
+} from './demographics';
+import {
+  CasualtyMechanism,
+  OutcomeLevel,
+  OUTCOME_LEVELS,
+  LETHALITY_CURVES,
+  curveProbability,
+  combineIndependentRisks,
+} from './lethalityCurves';
+import {
+  RandomSource,
+  createSeededRandom,
+  sampleLognormalFactor,
+  percentile,
+} from './random';
 
 export interface PopulationData {
   totalPopulation: number;
@@ -38,67 +74,559 @@ export interface CasualtyData {
     radiationSickness: number;
     combinedInjuries: number;
   };
+  byAge: AgeCasualties[]; // youngest first
+  demographics: Demographics;
   usingRealData?: boolean;
+  populationSource?: PopulationSource; // provider of the population grid, when one was used
+  survivors: SurvivorProfilePoint[]; // outward from ground zero, for the long-term health model
+  uncertainty?: {
+    runs: number;
+    seed: number;
+    fatalities: UncertaintyRange;
+    injuries: UncertaintyRange;
+  };
 }
 
-// Fatality rates based on historical data and medical literature
-const FATALITY_RATES = {
-  fireball: 1.0, // 100% fatality rate
-  psi20: 0.98, // Near complete fatality
-  psi5: 0.50, // 50% fatality rate from building collapse
-  psi2: 0.05, // 5% fatality rate
-  psi1: 0.01, // 1% fatality rate
-  thermal3rd: 0.50, // 50% fatality for 3rd degree burns without treatment
-  thermal2nd: 0.05, // 5% fatality for 2nd degree burns
-  thermal1st: 0.001, // Minimal fatality for 1st degree burns
-  radiation500: 0.90, // 90% fatality rate at 500 rem
-  radiation100: 0.10, // 10% fatality rate at 100 rem
-};
+// Casualties in one age bracket, summed over mechanisms
+export interface AgeCasualties {
+  bracket: AgeBracket;
+  label: string;
+  populationAffected: number;
+  fatalities: number;
+  injuries: {
+    severe: number;
+    moderate: number;
+    light: number;
+  };
+}
+
+// Share of people surviving the prompt effects at a distance, and their mean prompt dose
+export interface SurvivorProfilePoint {
+  distance: number; // meters
+  survivingShare: number;
+  promptDose: number; // rem, after shelter protection
+}
+
+// Spread of a Monte Carlo estimate
+export interface UncertaintyRange {
+  median: number;
+  p5: number;
+  p95: number;
+}
+
+// Population at a known distance from ground zero: a radial bin of grid cells or a thin ring
+interface PopulationCell {
+  distance: number; // meters
+  population: number;
+}
+
+// Probability of each outcome level or worse, per mechanism
+type MechanismOutcomes = Record<CasualtyMechanism, Record<OutcomeLevel, number>>;
+
+// Grid cells near ground zero are split so each part is small next to its distance,
+// up to this many parts per side
+const MAX_CELL_SUBDIVISIONS = 32;
+const SUBDIVISION_FACTOR = 4; // parts per side for a cell as large as its nearest distance
 
-// Injury severity distribution for survivors
-const INJURY_DISTRIBUTION = {
-  psi20: { severe: 1.0, moderate: 0, light: 0 },
-  psi5: { severe: 0.7, moderate: 0.2, light: 0.1 },
-  psi2: { severe: 0.2, moderate: 0.5, light: 0.3 },
-  psi1: { severe: 0.05, moderate: 0.15, light: 0.8 },
-  thermal3rd: { severe: 1.0, moderate: 0, light: 0 },
-  thermal2nd: { severe: 0.3, moderate: 0.7, light: 0 },
-  thermal1st: { severe: 0, moderate: 0.1, light: 0.9 },
-  radiation500: { severe: 1.0, moderate: 0, light: 0 },
-  radiation100: { severe: 0.4, moderate: 0.6, light: 0 },
+// Distance bins grid population is gathered into, fine enough that evaluating each bin at its
+// mean distance matches evaluating every cell, and independent of the grid size
+// Bins widen in proportion to distance from RADIAL_BIN_START, so each is a fixed share of its
+// radius and small zones such as the fireball are resolved as finely as large ones
+const RADIAL_BINS = 2000;
+const RADIAL_BIN_START = 1; // meters, nearer parts share the first bin
+
+// Rings used to integrate a uniform density when no population grid is available
+const DENSITY_INTEGRATION_STEPS = 200;
+
+// Light injuries extend past the nominal 1 psi and 1st degree radii
+const EVALUATION_RADIUS_FACTOR = 1.5;
+
+// Hazard is undefined at certainty, cap probabilities just below 1 when attributing outcomes
+const MAX_ATTRIBUTION_PROBABILITY = 0.999999;
+
+const MECHANISM_NAMES: Record<CasualtyMechanism, string> = {
+  fireball: 'Fireball',
+  blast: 'Blast',
+  thermal: 'Thermal burns',
+  radiation: 'Prompt radiation',
+  fire: 'Mass fire',
 };
 
+const MECHANISMS = Object.keys(MECHANISM_NAMES) as CasualtyMechanism[];
+
 // Calculate area of a circle in km²
 function calculateArea(radiusMeters: number): number {
   const radiusKm = radiusMeters / 1000;
   return Math.PI * radiusKm * radiusKm;
 }
 
-// Calculate population in a ring between two radii
-function calculateRingPopulation(
-  innerRadius: number,
-  outerRadius: number,
-  populationDensity: number,
-  urbanFactor: number = 1
-): number {
-  const outerArea = calculateArea(outerRadius);
-  const innerArea = calculateArea(innerRadius);
-  const ringArea = outerArea - innerArea;
+// Population grid within maxRadius of the blast center, as a radial-bin index
+// Only cells inside the bounding box of maxRadius are visited. Cells close to ground zero, or
+// cut by maxRadius, are split into equal parts each binned at its own distance, so small radii
+// are not quantized to whole cells.
+function gridCells(
+  populationGrid: PopulationGrid,
+  center: { lat: number; lng: number },
+  maxRadius: number
+): PopulationCell[] {
+  const { bounds, data } = populationGrid;
+  const gridHeight = data.length;
+  const gridWidth = data[0]?.length || 0;
+  const cellLatSize = (bounds.north - bounds.south) / gridHeight;
+  const cellLngSize = (bounds.east - bounds.west) / gridWidth;
+  const metersPerDegreeLng = 111000 * Math.cos(center.lat * Math.PI / 180);
+  const cellHeight = cellLatSize * 111000;
+  const cellWidth = cellLngSize * metersPerDegreeLng;
+  const halfDiagonal = Math.hypot(cellHeight, cellWidth) / 2;
+  
+  const binPopulation = new Float64Array(RADIAL_BINS);
+  const binWeightedDistance = new Float64Array(RADIAL_BINS);
+  const binScale = RADIAL_BINS / Math.log(maxRadius / RADIAL_BIN_START);
+  const binOf = (distance: number) => distance <= RADIAL_BIN_START
+    ? 0
+    : Math.min(RADIAL_BINS - 1, Math.floor(Math.log(distance / RADIAL_BIN_START) * binScale));
+  const binEdge = (bin: number) => bin === 0 ? 0 : RADIAL_BIN_START * Math.exp(bin / binScale);
+  // Parts are spread evenly over distance ± halfSpan rather than placed at their centers, so
+  // parts of the regular lattice at nearly the same distance do not land in one bin together.
+  // Cells far enough out to be whole are small next to their distance and placed directly.
+  const addToBin = (distance: number, halfSpan: number, population: number) => {
+    const near = Math.max(0, distance - halfSpan);
+    if (near > maxRadius) return;
+    const far = Math.min(maxRadius, distance + halfSpan);
+    const first = binOf(near);
+    const last = binOf(far);
+    if (first === last || halfSpan <= 0) {
+      const share = halfSpan > 0 ? (far - near) / (2 * halfSpan) : 1;
+      binPopulation[first] += population * share;
+      binWeightedDistance[first] += (near + far) / 2 * population * share;
+      return;
+    }
+    for (let bin = first; bin <= last; bin++) {
+      const inner = Math.max(near, binEdge(bin));
+      const outer = Math.min(far, binEdge(bin + 1));
+      if (outer <= inner) continue;
+      const people = population * (outer - inner) / (2 * halfSpan);
+      binPopulation[bin] += people;
+      binWeightedDistance[bin] += (inner + outer) / 2 * people;
+    }
+  };
+  
+  // Slightly wider than maxRadius, haversine and flat distances differ a little
+  const reachLat = maxRadius * 1.01 / 111000;
+  const reachLng = maxRadius * 1.01 / metersPerDegreeLng;
+  const rowStart = Math.max(0, Math.floor((center.lat - reachLat - bounds.south) / cellLatSize));
+  const rowEnd = Math.min(gridHeight - 1, Math.floor((center.lat + reachLat - bounds.south) / cellLatSize));
+  const colStart = Math.max(0, Math.floor((center.lng - reachLng - bounds.west) / cellLngSize));
+  const colEnd = Math.min(gridWidth - 1, Math.floor((center.lng + reachLng - bounds.west) / cellLngSize));
   
+  for (let row = rowStart; row <= rowEnd; row++) {
+    for (let col = colStart; col <= colEnd; col++) {
+      if (!data[row][col]) continue;
+      const cellLat = bounds.south + (row + 0.5) * cellLatSize;
+      const cellLng = bounds.west + (col + 0.5) * cellLngSize;
+      const distance = haversineDistance(center, { lat: cellLat, lng: cellLng });
+      if (distance - halfDiagonal > maxRadius) continue;
+      
+      const cutByEdge = distance + halfDiagonal > maxRadius;
+      const parts = Math.min(MAX_CELL_SUBDIVISIONS, Math.max(
+        cutByEdge ? SUBDIVISION_FACTOR : 1,
+        Math.ceil(SUBDIVISION_FACTOR * 2 * halfDiagonal / Math.max(distance - halfDiagonal, 1))
+      ));
+      if (parts === 1) {
+        addToBin(distance, 0, data[row][col]);
+        continue;
+      }
+      
+      // Parts are placed by their offset from the cell center, close enough to ground zero for a flat projection
+      const northOffset = (cellLat - center.lat) * 111000;
+      const eastOffset = (cellLng - center.lng) * metersPerDegreeLng;
+      const population = data[row][col] / (parts * parts);
+      const halfSpan = (cellHeight + cellWidth) / (4 * parts);
+      for (let i = 0; i < parts; i++) {
+        for (let j = 0; j < parts; j++) {
+          addToBin(Math.hypot(
+            northOffset + ((i + 0.5) / parts - 0.5) * cellHeight,
+            eastOffset + ((j + 0.5) / parts - 0.5) * cellWidth
+          ), halfSpan, population);
+        }
+      }
+    }
+  }
+  
+  const cells: PopulationCell[] = [];
+  for (let bin = 0; bin < RADIAL_BINS; bin++) {
+    if (binPopulation[bin] > 0) {
+      cells.push({ distance: binWeightedDistance[bin] / binPopulation[bin], population: binPopulation[bin] });
+    }
+  }
+  return cells;
+}
+
+// Thin rings of uniform density out to maxRadius
+function densityCells(
+  populationDensity: number,
+  urbanFactor: number,
+  maxRadius: number
+): PopulationCell[] {
   // Apply urban factor to account for higher density in city centers
   const effectiveDensity = populationDensity * urbanFactor;
-  return Math.round(ringArea * effectiveDensity);
+  const step = maxRadius / DENSITY_INTEGRATION_STEPS;
+  const cells: PopulationCell[] = [];
+  
+  for (let i = 0; i < DENSITY_INTEGRATION_STEPS; i++) {
+    const inner = i * step;
+    const outer = inner + step;
+    cells.push({
+      distance: inner + step / 2,
+      population: (calculateArea(outer) - calculateArea(inner)) * effectiveDensity,
+    });
+  }
+  
+  return cells;
+}
+
+// Sampled departures from the central model
+interface ModelVariation {
+  populationFactor: number; // multiplies every cell's population
+  curveMedianFactors: Record<'blast' | 'thermal' | 'radiation', number>; // multiply the dose-response medians
+  outdoorFactor: number; // multiplies the share of people caught outdoors
+}
+
+const CENTRAL_VARIATION: ModelVariation = {
+  populationFactor: 1,
+  curveMedianFactors: { blast: 1, thermal: 1, radiation: 1 },
+  outdoorFactor: 1,
+};
+
+// Outcome probabilities from each mechanism for people with the given protection
+// Protection factors divide the local overpressure, fluence and dose
+function mechanismOutcomesAt(
+  effects: EffectsAtRange,
+  distance: number,
+  fireballRadius: number,
+  groundShockRadius: number,
+  fireEffects: FireEffects | undefined,
+  variation: ModelVariation,
+  protection: ProtectionFactors
+): MechanismOutcomes {
+  // Buried structures inside the ground shock zone fail as if at 20 psi
+  const overpressure = distance <= groundShockRadius ? Math.max(effects.overpressure, 20) : effects.overpressure;
+  const inFireball = distance < fireballRadius ? 1 : 0;
+  const fireRate = fireEffects && distance <= fireEffects.massFireRadiusKm * 1000 ? fireEffects.fatalityRate : 0;
+  
+  const fromCurves = (mechanism: 'blast' | 'thermal' | 'radiation', exposure: number) => {
+    // Enforce that a worse outcome is never more likely than a milder one
+    let floor = 0;
+    const outcomes = {} as Record<OutcomeLevel, number>;
+    OUTCOME_LEVELS.forEach(level => {
+      const curve = LETHALITY_CURVES[mechanism][level];
+      const median = curve.median * variation.curveMedianFactors[mechanism];
+      floor = Math.max(floor, curveProbability(exposure / protection[mechanism], { median, beta: curve.beta }));
+      outcomes[level] = floor;
+    });
+    return outcomes;
+  };
+  const uniform = (p: number) => ({ fatal: p, severe: p, moderate: p, light: p });
+  
+  return {
+    fireball: uniform(inFireball),
+    blast: fromCurves('blast', overpressure),
+    thermal: fromCurves('thermal', effects.thermalFluence),
+    radiation: fromCurves('radiation', effects.promptDose),
+    // Fire kills or spares, survivors of the fire zone are otherwise unhurt by it
+    fire: uniform(fireRate),
+  };
+}
+
+// Radii (meters) out to which each mechanism is reported
+function mechanismRadii(
+  blastEffects: NuclearWeapon['blastEffects'],
+  fireEffects?: FireEffects
+): Record<CasualtyMechanism, number> {
+  // Crater lip and ground shock extend the total-destruction zones for surface and buried bursts
+  // Note: fireball and crater are in meters, others are in km and need conversion
+  return {
+    fireball: Math.max(blastEffects.fireball, blastEffects.crater?.lipRadius ?? 0),
+    blast: Math.max(blastEffects.overpressure.psi1 * 1000, blastEffects.crater?.groundShockRadius ?? 0),
+    thermal: blastEffects.thermal.firstDegree * 1000,
+    radiation: blastEffects.radiation.rem100 * 1000,
+    fire: (fireEffects?.massFireRadiusKm ?? 0) * 1000,
+  };
+}
+
+type CasualtyTally = Record<OutcomeLevel, number> & { populationAffected: number };
+
+// People sharing a shelter posture and age bracket
+interface ExposureGroup {
+  bracket: AgeBracket;
+  fraction: number; // share of each cell's population
+  shielding: ProtectionFactors; // from the shelter posture
+  protection: ProtectionFactors; // shielding divided by age vulnerability, applied to the lethality curves
+}
+
+// Every combination of shelter posture and age bracket with its population share
+// Sampled runs move people between the outdoors and the other postures
+function exposureGroups(
+  postureFractions: Record<ShelterPosture, number>,
+  ageStructure: Record<AgeBracket, number>,
+  variation: ModelVariation
+): ExposureGroup[] {
+  const outdoors = Math.min(1, postureFractions.outdoors * variation.outdoorFactor);
+  const indoorScale = postureFractions.outdoors < 1 ? (1 - outdoors) / (1 - postureFractions.outdoors) : 0;
+  return SHELTER_POSTURE_ORDER.flatMap(posture => {
+    const postureShare = posture === 'outdoors' ? outdoors : postureFractions[posture] * indoorScale;
+    const shielding = SHELTER_POSTURES[posture].protection;
+    return AGE_BRACKETS.map(bracket => {
+      const vulnerability = AGE_VULNERABILITY[bracket];
+      return {
+        bracket,
+        fraction: postureShare * ageStructure[bracket],
+        shielding,
+        protection: {
+          blast: shielding.blast / vulnerability.blast,
+          thermal: shielding.thermal / vulnerability.thermal,
+          radiation: shielding.radiation / vulnerability.radiation,
+        },
+      };
+    });
+  }).filter(group => group.fraction > 0);
+}
+
+// Expected outcomes per mechanism over a set of population cells
+// Cells are disjoint, so no one is counted in two rings or subtracted twice. Each person's
+// outcome is the worst caused by any mechanism, and outcomes are attributed to mechanisms in
+// proportion to their hazard
+function tallyCasualties(
+  cells: PopulationCell[],
+  blastEffects: NuclearWeapon['blastEffects'],
+  fireEffects: FireEffects | undefined,
+  groups: ExposureGroup[],
+  variation: ModelVariation
+): {
+  tallies: Record<CasualtyMechanism, CasualtyTally>;
+  ageTallies: Record<AgeBracket, CasualtyTally>;
+  populationAffected: number;
+} {
+  const radii = mechanismRadii(blastEffects, fireEffects);
+  const groundShockRadius = blastEffects.crater?.groundShockRadius ?? 0;
+  
+  const tallies = {} as Record<CasualtyMechanism, CasualtyTally>;
+  MECHANISMS.forEach(mechanism => {
+    tallies[mechanism] = { fatal: 0, severe: 0, moderate: 0, light: 0, populationAffected: 0 };
+  });
+  const ageTallies = {} as Record<AgeBracket, CasualtyTally>;
+  AGE_BRACKETS.forEach(bracket => {
+    ageTallies[bracket] = { fatal: 0, severe: 0, moderate: 0, light: 0, populationAffected: 0 };
+  });
+  let populationAffected = 0;
+  
+  cells.forEach(cell => {
+    // Every cell is counted once as affected, including the light injury margin past the outer radius
+    const population = cell.population * variation.populationFactor;
+    populationAffected += population;
+    MECHANISMS.forEach(mechanism => {
+      if (cell.distance < radii[mechanism]) tallies[mechanism].populationAffected += population;
+    });
+    
+    const effects = effectsAtRangeFromBlastEffects(blastEffects, cell.distance / 1000);
+    groups.forEach(({ bracket, protection, fraction }) => {
+      ageTallies[bracket].populationAffected += population * fraction;
+      const outcomes = mechanismOutcomesAt(
+        effects,
+        cell.distance,
+        radii.fireball,
+        groundShockRadius,
+        fireEffects,
+        variation,
+        protection
+      );
+      
+      // Probability that the worst outcome is at least each level, combining mechanisms as independent risks
+      let previous = 0;
+      OUTCOME_LEVELS.forEach(level => {
+        const atLeast = combineIndependentRisks(MECHANISMS.map(m => outcomes[m][level]));
+        const people = population * fraction * Math.max(0, atLeast - previous);
+        previous = Math.max(previous, atLeast);
+        if (people <= 0) return;
+        ageTallies[bracket][level] += people;
+        
+        const hazards = MECHANISMS.map(m => -Math.log(1 - Math.min(MAX_ATTRIBUTION_PROBABILITY, outcomes[m][level])));
+        const totalHazard = hazards.reduce((sum, h) => sum + h, 0);
+        if (totalHazard <= 0) return;
+        MECHANISMS.forEach((mechanism, i) => {
+          tallies[mechanism][level] += people * hazards[i] / totalHazard;
+        });
+      });
+    });
+  });
+  
+  return { tallies, ageTallies, populationAffected };
+}
+
+// Points in the survivor profile
+const SURVIVOR_PROFILE_STEPS = 100;
+
+// Survival and prompt dose among survivors outward from ground zero, central model only
+function survivorProfile(
+  blastEffects: NuclearWeapon['blastEffects'],
+  fireEffects: FireEffects | undefined,
+  groups: ExposureGroup[],
+  maxRadius: number
+): SurvivorProfilePoint[] {
+  const radii = mechanismRadii(blastEffects, fireEffects);
+  const groundShockRadius = blastEffects.crater?.groundShockRadius ?? 0;
+  const step = maxRadius / SURVIVOR_PROFILE_STEPS;
+  
+  return Array.from({ length: SURVIVOR_PROFILE_STEPS }, (_, i) => {
+    const distance = (i + 0.5) * step;
+    const effects = effectsAtRangeFromBlastEffects(blastEffects, distance / 1000);
+    let survivingShare = 0;
+    let survivorDose = 0;
+    groups.forEach(({ shielding, protection, fraction }) => {
+      const outcomes = mechanismOutcomesAt(
+        effects,
+        distance,
+        radii.fireball,
+        groundShockRadius,
+        fireEffects,
+        CENTRAL_VARIATION,
+        protection
+      );
+      const survive = fraction * (1 - combineIndependentRisks(MECHANISMS.map(m => outcomes[m].fatal)));
+      survivingShare += survive;
+      survivorDose += survive * effects.promptDose / shielding.radiation;
+    });
+    return {
+      distance,
+      survivingShare,
+      promptDose: survivingShare > 0 ? survivorDose / survivingShare : 0,
+    };
+  });
+}
+
+// Monte Carlo settings, see sampleVariation for the sampled inputs
+export const DEFAULT_MONTE_CARLO_RUNS = 200;
+export const DEFAULT_MONTE_CARLO_SEED = 1945;
+
+// Radial bins the population is collapsed into for the Monte Carlo runs
+const MONTE_CARLO_BINS = 100;
+
+// Log standard deviations of the sampled multiplicative uncertainties
+const UNCERTAINTY = {
+  yield: 0.15, // Catalog yields are estimates, often from a range
+  scaling: 0.1, // Scaling constants for each effect
+  curveMedian: 0.2, // Dose-response medians
+  population: 0.25, // Population density and occupancy
+  outdoorFraction: 0.4, // Share of people caught outdoors
+};
+
+// Blast effects for a yield multiplied by yieldFactor, with each effect's scaling constant
+// multiplied by its own factor. Radii follow the same yield exponents as calculateBlastEffects.
+function scaleBlastEffects(
+  blastEffects: NuclearWeapon['blastEffects'],
+  yieldFactor: number,
+  constantFactors: { blast: number; thermal: number; radiation: number }
+): NuclearWeapon['blastEffects'] {
+  const blast = Math.pow(yieldFactor, 0.33) * constantFactors.blast;
+  const thermal = Math.pow(yieldFactor, 0.41) * constantFactors.thermal;
+  const radiation = Math.pow(yieldFactor, 0.19) * constantFactors.radiation;
+  const crater = Math.pow(yieldFactor, 1 / 3.4);
+  return {
+    fireball: blastEffects.fireball * Math.pow(yieldFactor, 0.4),
+    overpressure: {
+      psi20: blastEffects.overpressure.psi20 * blast,
+      psi5: blastEffects.overpressure.psi5 * blast,
+      psi2: blastEffects.overpressure.psi2 * blast,
+      psi1: blastEffects.overpressure.psi1 * blast,
+    },
+    thermal: {
+      thirdDegree: blastEffects.thermal.thirdDegree * thermal,
+      secondDegree: blastEffects.thermal.secondDegree * thermal,
+      firstDegree: blastEffects.thermal.firstDegree * thermal,
+    },
+    radiation: {
+      rem500: blastEffects.radiation.rem500 * radiation,
+      rem100: blastEffects.radiation.rem100 * radiation,
+    },
+    ...(blastEffects.crater ? {
+      crater: {
+        apparentRadius: blastEffects.crater.apparentRadius * crater,
+        depth: blastEffects.crater.depth * crater,
+        lipRadius: blastEffects.crater.lipRadius * crater,
+        groundShockRadius: blastEffects.crater.groundShockRadius * crater,
+      },
+    } : {}),
+  };
+}
+
+// Collapse cells into population-weighted radial bins
+// Half the bins are spread by log distance, as in the grid index, and half evenly, so inner
+// zones such as the fireball keep bins of their own at large radii while the outer rings,
+// where most people are, stay close to even spacing
+function binCells(cells: PopulationCell[], maxRadius: number): PopulationCell[] {
+  const logScale = Math.log(maxRadius / RADIAL_BIN_START);
+  const binOf = (distance: number) => Math.min(MONTE_CARLO_BINS - 1, Math.floor(MONTE_CARLO_BINS / 2 * (
+    Math.log(Math.max(distance, RADIAL_BIN_START) / RADIAL_BIN_START) / logScale + distance / maxRadius
+  )));
+  const bins = Array.from({ length: MONTE_CARLO_BINS }, () => ({ weightedDistance: 0, population: 0 }));
+  cells.forEach(cell => {
+    const i = binOf(cell.distance);
+    bins[i].weightedDistance += cell.distance * cell.population;
+    bins[i].population += cell.population;
+  });
+  return bins
+    .filter(bin => bin.population > 0)
+    .map(bin => ({ distance: bin.weightedDistance / bin.population, population: bin.population }));
+}
+
+// Sample the uncertain inputs of one Monte Carlo run
+function sampleVariation(
+  random: RandomSource,
+  blastEffects: NuclearWeapon['blastEffects']
+): { blastEffects: NuclearWeapon['blastEffects']; variation: ModelVariation } {
+  const sampledEffects = scaleBlastEffects(blastEffects, sampleLognormalFactor(random, UNCERTAINTY.yield), {
+    blast: sampleLognormalFactor(random, UNCERTAINTY.scaling),
+    thermal: sampleLognormalFactor(random, UNCERTAINTY.scaling),
+    radiation: sampleLognormalFactor(random, UNCERTAINTY.scaling),
+  });
+  return {
+    blastEffects: sampledEffects,
+    variation: {
+      populationFactor: sampleLognormalFactor(random, UNCERTAINTY.population),
+      curveMedianFactors: {
+        blast: sampleLognormalFactor(random, UNCERTAINTY.curveMedian),
+        thermal: sampleLognormalFactor(random, UNCERTAINTY.curveMedian),
+        radiation: sampleLognormalFactor(random, UNCERTAINTY.curveMedian),
+      },
+      outdoorFactor: sampleLognormalFactor(random, UNCERTAINTY.outdoorFraction),
+    },
+  };
+}
+
+// Median and 5th/95th percentiles of a sampled quantity
+function summarize(samples: number[]): UncertaintyRange {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    median: Math.round(percentile(sorted, 50)),
+    p5: Math.round(percentile(sorted, 5)),
+    p95: Math.round(percentile(sorted, 95)),
+  };
 }
 
 // Estimate population density based on city data
+// populationSeed fixes the synthetic population pattern; when unset it is derived from the location
 export async function estimatePopulationDensity(
   lat: number,
   lng: number,
-  cityName: string
+  cityName: string,
+  scenarioTime: ScenarioTime = DEFAULT_SCENARIO_TIME,
+  populationSeed?: number
 ): Promise<PopulationData> {
   // Try to fetch real population data first
   const maxRadiusKm = 20; // Fetch data for up to 20km radius
-  const populationGrid = await fetchRealPopulationData(lat, lng, maxRadiusKm);
+  const nominalGrid = await fetchRealPopulationData(lat, lng, maxRadiusKm, undefined, { seed: populationSeed });
+  // Move people between homes and workplaces for the scenario time
+  const populationGrid = nominalGrid ? applyScenarioTime(nominalGrid, scenarioTime) : null;
   
   // Default urban population density estimates (people per km²)
   const defaultDensities: { [key: string]: number } = {
@@ -150,9 +678,8 @@ export async function estimatePopulationDensity(
   const mediumScale = Math.sin(lat * 50) * Math.cos(lng * 50) * 0.25;
   const largeScale = Math.sin(lat * 10) * Math.cos(lng * 10) * 0.1;
   
-  // Time-based factor (business districts vs residential)
-  const hour = new Date().getHours();
-  const isBusinessHours = hour >= 9 && hour <= 17;
+  // Time-based factor (business districts vs residential) from the scenario time
+  const isBusinessHours = scenarioTime.dayType === 'weekday' && scenarioTime.hour >= 9 && scenarioTime.hour <= 17;
   const timeFactor = isBusinessHours ? 1.1 : 0.9;
   
   // Combine all factors
@@ -173,129 +700,68 @@ export async function estimatePopulationDensity(
   };
 }
 
-// Calculate casualties for each blast zone
+// Scenario inputs beyond the weapon effects and population
+export interface CasualtyScenario {
+  fireEffects?: FireEffects; // Adds fire as a casualty mechanism
+  shelter?: ShelterScenario; // Warning time and shelter posture, surprise attack if omitted
+  demographics?: Demographics; // Age structure, world average if omitted
+  monteCarlo?: { runs: number; seed: number };
+}
+
+// Calculate casualties by mechanism
+// Every grid cell (or thin ring when no grid is available) is evaluated on continuous
+// dose-response curves for each shelter posture and age bracket. The central estimate is followed by seeded
+// Monte Carlo runs over yield, scaling constants, dose-response medians, population and the
+// share of people caught outdoors.
 export function calculateCasualties(
-  blastEffects: {
-    fireball: number;
-    overpressure: {
-      psi20: number;
-      psi5: number;
-      psi2: number;
-      psi1: number;
-    };
-    thermal: {
-      thirdDegree: number;
-      secondDegree: number;
-      firstDegree: number;
-    };
-    radiation: {
-      rem500: number;
-      rem100: number;
-    };
-  },
+  blastEffects: NuclearWeapon['blastEffects'],
   populationData: PopulationData,
-  blastCenter?: { lat: number; lng: number }
+  blastCenter?: { lat: number; lng: number },
+  scenario: CasualtyScenario = {}
 ): CasualtyData {
-  const estimates: CasualtyEstimate[] = [];
   const { populationDensity, urbanDensityFactor, populationGrid } = populationData;
+  const {
+    fireEffects,
+    shelter = DEFAULT_SHELTER_SCENARIO,
+    demographics = DEFAULT_DEMOGRAPHICS,
+    monteCarlo = { runs: DEFAULT_MONTE_CARLO_RUNS, seed: DEFAULT_MONTE_CARLO_SEED },
+  } = scenario;
+  const postureFractions = effectivePostureFractions(shelter);
+  const groups = exposureGroups(postureFractions, demographics.ageStructure, CENTRAL_VARIATION);
   
-  // Sort zones by radius (innermost first)
-  // Note: fireball is in meters, others are in km and need conversion
-  const zones = [
-    { name: 'Fireball', radius: blastEffects.fireball, fatalityRate: FATALITY_RATES.fireball, injuries: INJURY_DISTRIBUTION.psi20 },
-    { name: '20 psi overpressure', radius: blastEffects.overpressure.psi20 * 1000, fatalityRate: FATALITY_RATES.psi20, injuries: INJURY_DISTRIBUTION.psi20 },
-    { name: '5 psi overpressure', radius: blastEffects.overpressure.psi5 * 1000, fatalityRate: FATALITY_RATES.psi5, injuries: INJURY_DISTRIBUTION.psi5 },
-    { name: '500 rem radiation', radius: blastEffects.radiation.rem500 * 1000, fatalityRate: FATALITY_RATES.radiation500, injuries: INJURY_DISTRIBUTION.radiation500 },
-    { name: '3rd degree burns', radius: blastEffects.thermal.thirdDegree * 1000, fatalityRate: FATALITY_RATES.thermal3rd, injuries: INJURY_DISTRIBUTION.thermal3rd },
-    { name: '2 psi overpressure', radius: blastEffects.overpressure.psi2 * 1000, fatalityRate: FATALITY_RATES.psi2, injuries: INJURY_DISTRIBUTION.psi2 },
-    { name: '100 rem radiation', radius: blastEffects.radiation.rem100 * 1000, fatalityRate: FATALITY_RATES.radiation100, injuries: INJURY_DISTRIBUTION.radiation100 },
-    { name: '2nd degree burns', radius: blastEffects.thermal.secondDegree * 1000, fatalityRate: FATALITY_RATES.thermal2nd, injuries: INJURY_DISTRIBUTION.thermal2nd },
-    { name: '1 psi overpressure', radius: blastEffects.overpressure.psi1 * 1000, fatalityRate: FATALITY_RATES.psi1, injuries: INJURY_DISTRIBUTION.psi1 },
-    { name: '1st degree burns', radius: blastEffects.thermal.firstDegree * 1000, fatalityRate: FATALITY_RATES.thermal1st, injuries: INJURY_DISTRIBUTION.thermal1st },
-  ].sort((a, b) => a.radius - b.radius);
+  const radii = mechanismRadii(blastEffects, fireEffects);
+  const maxRadius = Math.max(...Object.values(radii)) * EVALUATION_RADIUS_FACTOR;
   
   // Use real population data if available
-  if (populationGrid && blastCenter) {
-    // Calculate casualties using real population grid data
-    const blastZonesForRealData = zones.map(zone => ({
-      radius: zone.radius,
-      fatalityRate: zone.fatalityRate
-    }));
-    
-    const realDataResults = calculateCasualtiesWithRealData(
-      blastZonesForRealData,
-      populationGrid,
-      blastCenter
-    );
-    
-    // Process results from real data
-    zones.forEach((zone, index) => {
-      const realData = realDataResults.find(r => r.radius === zone.radius);
-      if (realData) {
-        const survivors = realData.populationAffected - realData.fatalities;
-        const injuries = {
-          severe: Math.round(survivors * zone.injuries.severe),
-          moderate: Math.round(survivors * zone.injuries.moderate),
-          light: Math.round(survivors * zone.injuries.light),
-        };
-        
-        estimates.push({
-          zone: zone.name,
-          radius: zone.radius,
-          area: calculateArea(zone.radius) - calculateArea(index > 0 ? zones[index - 1].radius : 0),
-          populationAffected: realData.populationAffected,
-          fatalities: realData.fatalities,
-          injuries,
-          description: getZoneDescription(zone.name),
-        });
-      }
-    });
-  } else {
-    // Fallback to estimation method
-    let previousRadius = 0;
-    let cumulativeFatalities = 0;
-    
-    // Calculate casualties for each ring
-    zones.forEach((zone) => {
-    // Skip if radius is 0 or invalid
-    if (!zone.radius || zone.radius <= previousRadius) return;
-    
-    // Calculate population in this ring
-    const ringPopulation = calculateRingPopulation(
-      previousRadius,
-      zone.radius,
-      populationDensity,
-      urbanDensityFactor
-    );
-    
-    // Account for people already killed in inner zones
-    const survivingPopulation = Math.max(0, ringPopulation - cumulativeFatalities);
-    
-    // Calculate new fatalities in this zone
-    const zoneFatalities = Math.round(survivingPopulation * zone.fatalityRate);
-    const survivors = survivingPopulation - zoneFatalities;
-    
-    // Calculate injuries among survivors
-    const injuries = {
-      severe: Math.round(survivors * zone.injuries.severe),
-      moderate: Math.round(survivors * zone.injuries.moderate),
-      light: Math.round(survivors * zone.injuries.light),
-    };
-    
-    estimates.push({
-      zone: zone.name,
-      radius: zone.radius,
-      area: calculateArea(zone.radius) - calculateArea(previousRadius),
-      populationAffected: ringPopulation,
-      fatalities: zoneFatalities,
-      injuries,
-      description: getZoneDescription(zone.name),
+  const usingRealData = populationGrid && blastCenter ? true : false;
+  // Bursts high enough to put no effect on the ground, such as HEMP, have nothing to evaluate
+  const cells = maxRadius <= 0
+    ? []
+    : populationGrid && blastCenter
+      ? gridCells(populationGrid, blastCenter, maxRadius)
+      : densityCells(populationDensity, urbanDensityFactor, maxRadius);
+  
+  const { tallies, ageTallies, populationAffected } = tallyCasualties(cells, blastEffects, fireEffects, groups, CENTRAL_VARIATION);
+  
+  const estimates: CasualtyEstimate[] = MECHANISMS
+    .filter(mechanism => mechanism !== 'fire' || radii.fire > 0)
+    .map(mechanism => {
+      const tally = tallies[mechanism];
+      const zone = mechanism === 'fire' && fireEffects?.firestorm ? 'Firestorm' : MECHANISM_NAMES[mechanism];
+      return {
+        zone,
+        radius: radii[mechanism],
+        area: calculateArea(radii[mechanism]),
+        populationAffected: Math.round(tally.populationAffected),
+        fatalities: Math.round(tally.fatal),
+        injuries: {
+          severe: Math.round(tally.severe),
+          moderate: Math.round(tally.moderate),
+          light: Math.round(tally.light),
+        },
+        description: getZoneDescription(zone),
+      };
     });
-    
-    cumulativeFatalities += zoneFatalities;
-    previousRadius = zone.radius;
-  });
-  }
   
   // Calculate totals
   const totalFatalities = estimates.reduce((sum, e) => sum + e.fatalities, 0);
@@ -303,46 +769,78 @@ export function calculateCasualties(
     (sum, e) => sum + e.injuries.severe + e.injuries.moderate + e.injuries.light,
     0
   );
-  const totalPopulationAffected = estimates.reduce((sum, e) => sum + e.populationAffected, 0);
   
   // Estimate medical burden
   const medicalBurden = {
-    severeTrauma: estimates
-      .filter(e => e.zone.includes('psi'))
-      .reduce((sum, e) => sum + e.injuries.severe, 0),
-    burns: estimates
-      .filter(e => e.zone.includes('degree'))
-      .reduce((sum, e) => sum + e.injuries.severe + e.injuries.moderate, 0),
-    radiationSickness: estimates
-      .filter(e => e.zone.includes('rem'))
-      .reduce((sum, e) => sum + e.injuries.severe + e.injuries.moderate, 0),
+    severeTrauma: Math.round(tallies.blast.severe),
+    burns: Math.round(tallies.thermal.severe + tallies.thermal.moderate),
+    radiationSickness: Math.round(tallies.radiation.severe + tallies.radiation.moderate),
     combinedInjuries: Math.round(totalInjuries * 0.1), // 10% have multiple injury types
   };
   
+  const byAge: AgeCasualties[] = AGE_BRACKETS.map(bracket => ({
+    bracket,
+    label: AGE_BRACKET_LABELS[bracket],
+    populationAffected: Math.round(ageTallies[bracket].populationAffected),
+    fatalities: Math.round(ageTallies[bracket].fatal),
+    injuries: {
+      severe: Math.round(ageTallies[bracket].severe),
+      moderate: Math.round(ageTallies[bracket].moderate),
+      light: Math.round(ageTallies[bracket].light),
+    },
+  }));
+  
+  // Uncertainty bands from the Monte Carlo runs
+  const random = createSeededRandom(monteCarlo.seed);
+  const binnedCells = binCells(cells, maxRadius);
+  const sampledFatalities: number[] = [];
+  const sampledInjuries: number[] = [];
+  for (let run = 0; run < monteCarlo.runs; run++) {
+    const sample = sampleVariation(random, blastEffects);
+    const sampleGroups = exposureGroups(postureFractions, demographics.ageStructure, sample.variation);
+    const result = tallyCasualties(binnedCells, sample.blastEffects, fireEffects, sampleGroups, sample.variation);
+    let fatalities = 0;
+    let injuries = 0;
+    MECHANISMS.forEach(mechanism => {
+      fatalities += result.tallies[mechanism].fatal;
+      injuries += result.tallies[mechanism].severe + result.tallies[mechanism].moderate + result.tallies[mechanism].light;
+    });
+    sampledFatalities.push(fatalities);
+    sampledInjuries.push(injuries);
+  }
+  
   return {
     estimates,
     totals: {
-      populationAffected: totalPopulationAffected,
+      populationAffected: Math.round(populationAffected),
       fatalities: totalFatalities,
       injuries: totalInjuries,
     },
     medicalBurden,
-    usingRealData: populationGrid && blastCenter ? true : false,
+    byAge,
+    demographics,
+    usingRealData,
+    ...(usingRealData && populationGrid?.source ? { populationSource: populationGrid.source } : {}),
+    survivors: survivorProfile(blastEffects, fireEffects, groups, maxRadius),
+    ...(monteCarlo.runs > 0 ? {
+      uncertainty: {
+        runs: monteCarlo.runs,
+        seed: monteCarlo.seed,
+        fatalities: summarize(sampledFatalities),
+        injuries: summarize(sampledInjuries),
+      },
+    } : {}),
   };
 }
 
 function getZoneDescription(zoneName: string): string {
   const descriptions: { [key: string]: string } = {
     'Fireball': 'Complete vaporization and incineration',
-    '20 psi overpressure': 'Reinforced concrete buildings destroyed',
-    '5 psi overpressure': 'Most buildings collapse, widespread fatalities',
-    '500 rem radiation': 'Lethal radiation dose, death within days',
-    '3rd degree burns': 'Severe burns requiring specialized treatment',
-    '2 psi overpressure': 'Residential buildings severely damaged',
-    '100 rem radiation': 'Radiation sickness, increased cancer risk',
-    '2nd degree burns': 'Painful burns, risk of infection',
-    '1 psi overpressure': 'Windows shattered, light injuries',
-    '1st degree burns': 'Superficial burns similar to sunburn',
+    'Blast': 'Building collapse, flying debris and glass',
+    'Thermal burns': 'Flash burns to exposed skin',
+    'Prompt radiation': 'Acute radiation syndrome from the initial gamma and neutron pulse',
+    'Mass fire': 'Thermal ignitions merge into widespread urban fires',
+    'Firestorm': 'Fires coalesce into a self-sustaining firestorm, shelters become lethal',
   };
   
   return descriptions[zoneName] || 'Blast effect zone';
@@ -0,0 +1,197 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  PopulationProvider,
+  circleCellOverlaps,
+  fetchRealPopulationData,
+  getPopulationProviders,
+  parsePopulationSeed,
+  registerPopulationProvider,
+  setPopulationProviderOrder,
+  populationInCircle,
+  populationInPolygon,
+} from './populationDataSources';
+import { calculateCasualties } from './populationCalculations';
+import type { NuclearWeapon } from './nuclearWeapons';
+import { uniformGrid as uniformGridAround } from '@/test/fixtures';
+
+const origin = { lat: 35.68, lng: 139.77 };
+const density = 10000; // people per km²
+const metersPerDegreeLng = 111000 * Math.cos(origin.lat * Math.PI / 180);
+
+const uniformGrid = (resolution: number) => uniformGridAround(origin, density, resolution);
+
+// Centers off the cell lattice, so no result depends on ground zero sitting on a cell corner
+const centers = [0, 1, 2, 3, 4, 5].map(k => ({ lat: origin.lat + k * 0.00037, lng: origin.lng + k * 0.00053 }));
+
+// Area (km²) of a [lat, lng] polygon
+const polygonAreaKm2 = (polygon: [number, number][]): number => Math.abs(polygon.reduce((sum, [lat, lng], i) => {
+  const [nextLat, nextLng] = polygon[(i + 1) % polygon.length];
+  return sum + (lng * nextLat - nextLng * lat);
+}, 0)) / 2 * 111 * metersPerDegreeLng / 1000;
+
+const resolutions = [2000, 1000, 400, 100];
+
+describe('circle overlaps', () => {
+  it.each(resolutions)('match the circle area at %i m cells', resolution => {
+    const grid = uniformGrid(resolution);
+    [150, 1000, 5000].forEach(radius => {
+      const expected = density * Math.PI * (radius / 1000) ** 2;
+      centers.forEach(center => {
+        expect(populationInCircle(grid, center, radius) / expected).toBeCloseTo(1, 3);
+      });
+    });
+  });
+
+  it('agree with the summed-area population', () => {
+    const grid = uniformGrid(400);
+    const center = centers[3];
+    const overlaps = circleCellOverlaps(grid, center, 3000);
+    const summed = overlaps.reduce((sum, { row, col, fraction }) => sum + grid.data[row][col] * fraction, 0);
+    expect(populationInCircle(grid, center, 3000)).toBeCloseTo(summed, 6);
+    overlaps.forEach(({ fraction }) => {
+      expect(fraction).toBeGreaterThan(0);
+      expect(fraction).toBeLessThanOrEqual(1);
+    });
+  });
+});
+
+describe('polygon overlaps', () => {
+  const triangle: [number, number][] = [
+    [origin.lat, origin.lng],
+    [origin.lat + 0.02, origin.lng + 0.01],
+    [origin.lat - 0.005, origin.lng + 0.03],
+  ];
+  // Elongated and concave, like a fallout plume bent by wind shear
+  const plume: [number, number][] = [
+    [origin.lat, origin.lng],
+    [origin.lat + 0.01, origin.lng + 0.02],
+    [origin.lat + 0.015, origin.lng + 0.06],
+    [origin.lat + 0.005, origin.lng + 0.03],
+    [origin.lat - 0.008, origin.lng + 0.05],
+    [origin.lat - 0.004, origin.lng + 0.01],
+  ];
+
+  it.each(resolutions)('match the polygon area at %i m cells', resolution => {
+    const grid = uniformGrid(resolution);
+    [triangle, plume].forEach(polygon => {
+      expect(populationInPolygon(grid, polygon) / (density * polygonAreaKm2(polygon))).toBeCloseTo(1, 3);
+    });
+  });
+});
+
+describe('fireball population', () => {
+  const blastEffects: NuclearWeapon['blastEffects'] = {
+    fireball: 150,
+    overpressure: { psi20: 0.4, psi5: 1.3, psi2: 2.9, psi1: 4.5 },
+    thermal: { thirdDegree: 1.9, secondDegree: 2.5, firstDegree: 3.2 },
+    radiation: { rem500: 1.2, rem100: 1.6 },
+  };
+  const expected = density * Math.PI * 0.15 ** 2;
+
+  // Mean relative error of the fireball's affected population over the off-lattice centers
+  const fireballError = (resolution: number) => {
+    const grid = uniformGrid(resolution);
+    const errors = centers.map(center => {
+      const casualties = calculateCasualties(
+        blastEffects,
+        { totalPopulation: 0, populationDensity: density, urbanDensityFactor: 1, populationGrid: grid },
+        center,
+        { monteCarlo: { runs: 0, seed: 1 } }
+      );
+      const fireball = casualties.estimates.find(e => e.zone === 'Fireball')!;
+      return Math.abs(fireball.populationAffected / expected - 1);
+    });
+    return errors.reduce((sum, error) => sum + error, 0) / errors.length;
+  };
+
+  it('converges as the resolution increases', () => {
+    const errors = [2000, 1000, 400].map(fireballError);
+    expect(errors[1]).toBeLessThan(errors[0]);
+    expect(errors[2]).toBeLessThan(errors[1]);
+    expect(errors[2]).toBeLessThan(0.01);
+    expect(fireballError(100)).toBeLessThan(0.01);
+  });
+});
+
+describe('population providers', () => {
+  afterEach(() => {
+    setPopulationProviderOrder(null);
+    vi.restoreAllMocks();
+  });
+
+  const provider = (id: string, fetchGrid: PopulationProvider['fetchGrid']): PopulationProvider => ({
+    id,
+    name: `Test ${id}`,
+    basis: 'census',
+    coverage: 'global',
+    confidence: 0.5,
+    fetchGrid,
+  });
+  const grid = uniformGrid(2000);
+
+  it('registers providers after the built-in ones, replacing by id', () => {
+    const first = provider('test-registered', async () => null);
+    const replacement = provider('test-registered', async () => grid);
+    registerPopulationProvider(first);
+    registerPopulationProvider(replacement);
+
+    const providers = getPopulationProviders();
+    expect(providers.filter(p => p.id === 'test-registered')).toEqual([replacement]);
+    expect(providers[providers.length - 1]).toBe(replacement);
+  });
+
+  it('tries only the listed providers in the listed order', () => {
+    registerPopulationProvider(provider('test-a', async () => null));
+    registerPopulationProvider(provider('test-b', async () => null));
+    setPopulationProviderOrder(['test-b', 'unknown', 'test-a']);
+    expect(getPopulationProviders().map(p => p.id)).toEqual(['test-b', 'test-a']);
+  });
+
+  it('falls through providers that throw or have no data', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const fallback = vi.fn(async () => grid);
+    registerPopulationProvider(provider('test-throws', async () => {
+      throw new Error('offline');
+    }));
+    registerPopulationProvider(provider('test-empty', async () => null));
+    registerPopulationProvider(provider('test-fallback', fallback));
+    setPopulationProviderOrder(['test-throws', 'test-empty', 'test-fallback']);
+
+    const result = await fetchRealPopulationData(origin.lat, origin.lng, 10);
+    expect(fallback).toHaveBeenCalledOnce();
+    expect(result?.source?.id).toBe('test-fallback');
+    expect(error).toHaveBeenCalled();
+  });
+
+  it('returns null when every provider fails', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    registerPopulationProvider(provider('test-throws', async () => {
+      throw new Error('offline');
+    }));
+    setPopulationProviderOrder(['test-throws']);
+    expect(await fetchRealPopulationData(origin.lat, origin.lng, 10)).toBeNull();
+  });
+
+  it('seeds synthetic population from the scenario, or from the location when unset', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    setPopulationProviderOrder(['synthetic-density']);
+    const fetchSynthetic = (seed?: number) => fetchRealPopulationData(origin.lat, origin.lng, 5, 1000, { seed });
+
+    const located = await fetchSynthetic();
+    expect((await fetchSynthetic())?.data).toEqual(located?.data);
+    const seeded = await fetchSynthetic(parsePopulationSeed('42'));
+    expect(seeded?.source?.seed).toBe(42);
+    expect(seeded?.data).not.toEqual(located?.data);
+    expect((await fetchSynthetic(42))?.data).toEqual(seeded?.data);
+  });
+
+  it('parses only 32-bit unsigned seeds', () => {
+    expect(parsePopulationSeed('4294967295')).toBe(4294967295);
+    expect(parsePopulationSeed('')).toBeUndefined();
+    expect(parsePopulationSeed('-1')).toBeUndefined();
+    expect(parsePopulationSeed('1.5')).toBeUndefined();
+    expect(parsePopulationSeed('4294967296')).toBeUndefined();
+  });
+});
@@ -1,3 +1,8 @@
+import { OccupancyClass, occupancyClassForBuilding } from './scenarioTime';
+import { ConstructionType, constructionTypeForBuilding } from './buildingDamage';
+import { gridDimensions, localRasterProvider } from './populationRasters';
+import { createSeededRandom, hashSeed } from './random';
+
 interface PopulationPoint {
   lat: number;
   lng: number;
@@ -5,55 +10,54 @@ interface PopulationPoint {
   confidence: number;
 }
 
+interface GridBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+// Provider that produced a grid, as shown to the user
+// What a grid is derived from: census or survey rasters, mapped buildings, or a generated
+// pattern that only resembles a city
+type PopulationBasis = 'census' | 'buildings' | 'synthetic';
+
+interface PopulationSource {
+  id: string;
+  name: string;
+  basis: PopulationBasis;
+  confidence: number; // 0-1
+  seed?: number; // seed of synthetic data, reproduces the grid
+}
+
 interface PopulationGrid {
-  bounds: {
-    north: number;
-    south: number;
-    east: number;
-    west: number;
-  };
+  bounds: GridBounds;
   resolution: number; // meters per grid cell
   data: number[][]; // population per grid cell
+  floorArea?: number[][]; // building floor area per grid cell (m²), only from building data
+  occupancy?: Record<OccupancyClass, number[][]>; // nominal occupants per class, only from building data
+  buildings?: Record<ConstructionType, number[][]>; // building counts per construction class, only from building data
+  source?: PopulationSource; // set by fetchRealPopulationData
+  seed?: number; // seed of synthetic data
 }
 
-// Calculate population within a circular area using grid data
-function calculatePopulationInCircle(
-  center: { lat: number; lng: number },
-  radiusMeters: number,
-  populationGrid: PopulationGrid
-): number {
-  const { bounds, data } = populationGrid;
-  
-  // Convert lat/lng to grid coordinates
-  const latRange = bounds.north - bounds.south;
-  const lngRange = bounds.east - bounds.west;
-  const gridHeight = data.length;
-  const gridWidth = data[0]?.length || 0;
-  
-  let totalPopulation = 0;
-  
-  // Iterate through grid cells
-  for (let row = 0; row < gridHeight; row++) {
-    for (let col = 0; col < gridWidth; col++) {
-      // Calculate center of this grid cell
-      const cellLat = bounds.south + (row + 0.5) * (latRange / gridHeight);
-      const cellLng = bounds.west + (col + 0.5) * (lngRange / gridWidth);
-      
-      // Calculate distance from blast center to cell center
-      const distance = haversineDistance(center, { lat: cellLat, lng: cellLng });
-      
-      // If cell is within blast radius, add its population
-      if (distance <= radiusMeters) {
-        totalPopulation += data[row][col];
-      }
-    }
-  }
-  
-  return Math.round(totalPopulation);
+// Options passed through to providers with each request
+interface PopulationRequestOptions {
+  seed?: number; // seed for synthetic data, derived from the location when unset
+}
+
+// A source of gridded population data
+interface PopulationProvider {
+  id: string;
+  name: string;
+  basis: PopulationBasis;
+  coverage: GridBounds | 'global'; // area the provider has data for
+  confidence: number; // 0-1, how closely the grid is expected to match the real population
+  fetchGrid: (bounds: GridBounds, resolution: number, options?: PopulationRequestOptions) => Promise<PopulationGrid | null>;
 }
 
 // Haversine formula to calculate distance between two points
-function haversineDistance(
+export function haversineDistance(
   point1: { lat: number; lng: number },
   point2: { lat: number; lng: number }
 ): number {
@@ -72,18 +76,248 @@ function haversineDistance(
   return R * c;
 }
 
+// Share of a grid cell's area inside a shape
+interface CellOverlap {
+  row: number;
+  col: number;
+  fraction: number; // 0-1
+}
+
+// Area of a polygon (shoelace formula), in the units of its coordinates squared
+export const polygonArea = (points: Array<[number, number]>): number => {
+  let twiceArea = 0;
+  for (let i = 0; i < points.length; i++) {
+    const [y1, x1] = points[i];
+    const [y2, x2] = points[(i + 1) % points.length];
+    twiceArea += x1 * y2 - x2 * y1;
+  }
+  return Math.abs(twiceArea) / 2;
+};
+
+// Part of a [lat, lng] polygon inside a bounding box (Sutherland-Hodgman)
+// The box is convex, so the polygon itself may be concave
+const clipToBounds = (polygon: Array<[number, number]>, box: GridBounds): Array<[number, number]> => {
+  // Axis (0 lat, 1 lng), edge value and which side is kept
+  const edges: Array<[0 | 1, number, 1 | -1]> = [
+    [0, box.south, 1],
+    [0, box.north, -1],
+    [1, box.west, 1],
+    [1, box.east, -1],
+  ];
+  let points = polygon;
+  for (const [axis, value, side] of edges) {
+    if (points.length === 0) break;
+    const clipped: Array<[number, number]> = [];
+    points.forEach((current, i) => {
+      const previous = points[(i + points.length - 1) % points.length];
+      const currentInside = (current[axis] - value) * side >= 0;
+      const previousInside = (previous[axis] - value) * side >= 0;
+      if (currentInside !== previousInside) {
+        const t = (value - previous[axis]) / (current[axis] - previous[axis]);
+        clipped.push([
+          previous[0] + (current[0] - previous[0]) * t,
+          previous[1] + (current[1] - previous[1]) * t,
+        ]);
+      }
+      if (currentInside) clipped.push(current);
+    });
+    points = clipped;
+  }
+  return points;
+};
+
+// Bounds of grid cell (row, col), row 0 at the southern edge
+const cellBounds = (grid: PopulationGrid, row: number, col: number): GridBounds => {
+  const { bounds, data } = grid;
+  const cellLat = (bounds.north - bounds.south) / data.length;
+  const cellLng = (bounds.east - bounds.west) / (data[0]?.length || 1);
+  return {
+    south: bounds.south + row * cellLat,
+    north: bounds.south + (row + 1) * cellLat,
+    west: bounds.west + col * cellLng,
+    east: bounds.west + (col + 1) * cellLng,
+  };
+};
+
+// Grid cells a [lat, lng] polygon overlaps, with the exact share of each cell it covers
+export function polygonCellOverlaps(grid: PopulationGrid, polygon: Array<[number, number]>): CellOverlap[] {
+  const { bounds, data } = grid;
+  const gridHeight = data.length;
+  const gridWidth = data[0]?.length || 0;
+  if (polygon.length < 3 || gridHeight === 0) return [];
+
+  const lats = polygon.map(([lat]) => lat);
+  const lngs = polygon.map(([, lng]) => lng);
+  const cellLat = (bounds.north - bounds.south) / gridHeight;
+  const cellLng = (bounds.east - bounds.west) / gridWidth;
+  const rowStart = Math.max(0, Math.floor((Math.min(...lats) - bounds.south) / cellLat));
+  const rowEnd = Math.min(gridHeight - 1, Math.floor((Math.max(...lats) - bounds.south) / cellLat));
+  const colStart = Math.max(0, Math.floor((Math.min(...lngs) - bounds.west) / cellLng));
+  const colEnd = Math.min(gridWidth - 1, Math.floor((Math.max(...lngs) - bounds.west) / cellLng));
+
+  const overlaps: CellOverlap[] = [];
+  for (let row = rowStart; row <= rowEnd; row++) {
+    for (let col = colStart; col <= colEnd; col++) {
+      const clipped = clipToBounds(polygon, cellBounds(grid, row, col));
+      const fraction = clipped.length >= 3 ? Math.min(1, polygonArea(clipped) / (cellLat * cellLng)) : 0;
+      if (fraction > 0) overlaps.push({ row, col, fraction });
+    }
+  }
+  return overlaps;
+}
+
+// Vertices of the polygons standing in for circles, sized to match the circle's area
+const CIRCLE_SEGMENTS = 256;
+
+// Cells of one grid row a circle covers: a run wholly inside, and the cells on its edge
+interface CircleRowSpan {
+  row: number;
+  inside: [number, number] | null; // first and last column wholly inside
+  edge: CellOverlap[];
+}
+
+// Row by row coverage of a circle over the grid
+// Cells wholly inside or outside are found from the circle's chord across the row; only
+// cells on the edge are clipped, against an equal-area polygon
+function circleRowSpans(
+  grid: PopulationGrid,
+  center: { lat: number; lng: number },
+  radiusMeters: number
+): CircleRowSpan[] {
+  const { bounds, data } = grid;
+  const gridHeight = data.length;
+  const gridWidth = data[0]?.length || 0;
+  if (radiusMeters <= 0 || gridHeight === 0) return [];
+
+  const metersPerDegreeLat = 111000;
+  const metersPerDegreeLng = 111000 * Math.cos(center.lat * Math.PI / 180);
+  const angle = 2 * Math.PI / CIRCLE_SEGMENTS;
+  const polygonRadius = radiusMeters * Math.sqrt(angle / Math.sin(angle));
+  const circle = Array.from({ length: CIRCLE_SEGMENTS }, (_, i): [number, number] => [
+    center.lat + polygonRadius * Math.sin(i * angle) / metersPerDegreeLat,
+    center.lng + polygonRadius * Math.cos(i * angle) / metersPerDegreeLng,
+  ]);
+
+  const cellLat = (bounds.north - bounds.south) / gridHeight;
+  const cellLng = (bounds.east - bounds.west) / gridWidth;
+  const rowStart = Math.max(0, Math.floor((center.lat - polygonRadius / metersPerDegreeLat - bounds.south) / cellLat));
+  const rowEnd = Math.min(gridHeight - 1, Math.floor((center.lat + polygonRadius / metersPerDegreeLat - bounds.south) / cellLat));
+  const column = (lng: number) => (lng - bounds.west) / cellLng;
+
+  const spans: CircleRowSpan[] = [];
+  for (let row = rowStart; row <= rowEnd; row++) {
+    // Nearest and farthest north-south offsets (meters) of the row from the center
+    const southOffset = (bounds.south + row * cellLat - center.lat) * metersPerDegreeLat;
+    const northOffset = southOffset + cellLat * metersPerDegreeLat;
+    const nearest = southOffset > 0 ? southOffset : northOffset < 0 ? -northOffset : 0;
+    const farthest = Math.max(Math.abs(southOffset), Math.abs(northOffset));
+    if (nearest >= polygonRadius) continue;
+
+    // Half chords (degrees of longitude) at the nearest and farthest edges of the row
+    const outerHalf = Math.sqrt(polygonRadius ** 2 - nearest ** 2) / metersPerDegreeLng;
+    const innerHalf = farthest < radiusMeters ? Math.sqrt(radiusMeters ** 2 - farthest ** 2) / metersPerDegreeLng : -1;
+    const outerStart = Math.max(0, Math.floor(column(center.lng - outerHalf)));
+    const outerEnd = Math.min(gridWidth - 1, Math.floor(column(center.lng + outerHalf)));
+    const insideStart = innerHalf >= 0 ? Math.max(0, Math.ceil(column(center.lng - innerHalf))) : 0;
+    const insideEnd = innerHalf >= 0 ? Math.min(gridWidth - 1, Math.floor(column(center.lng + innerHalf)) - 1) : -1;
+    const inside: [number, number] | null = insideStart <= insideEnd ? [insideStart, insideEnd] : null;
+
+    const edge: CellOverlap[] = [];
+    for (let col = outerStart; col <= outerEnd; col++) {
+      if (inside && col >= inside[0] && col <= inside[1]) continue;
+      const clipped = clipToBounds(circle, cellBounds(grid, row, col));
+      const fraction = clipped.length >= 3 ? Math.min(1, polygonArea(clipped) / (cellLat * cellLng)) : 0;
+      if (fraction > 0) edge.push({ row, col, fraction });
+    }
+    spans.push({ row, inside, edge });
+  }
+  return spans;
+}
+
+// Grid cells a circle overlaps, with the share of each cell it covers
+export function circleCellOverlaps(
+  grid: PopulationGrid,
+  center: { lat: number; lng: number },
+  radiusMeters: number
+): CellOverlap[] {
+  return circleRowSpans(grid, center, radiusMeters).flatMap(({ row, inside, edge }) => [
+    ...(inside ? Array.from({ length: inside[1] - inside[0] + 1 }, (_, i) => ({ row, col: inside[0] + i, fraction: 1 })) : []),
+    ...edge,
+  ]);
+}
+
+// Summed-area tables of grid population, built once per grid
+const summedAreaTables = new WeakMap<number[][], Float64Array>();
+
+// Entry (row, col) of the table holds the population of all cells in rows below row and
+// columns left of col, so any rectangle sums from four entries
+function summedAreaTable(grid: PopulationGrid): Float64Array {
+  const cached = summedAreaTables.get(grid.data);
+  if (cached) return cached;
+
+  const { data } = grid;
+  const gridHeight = data.length;
+  const gridWidth = data[0]?.length || 0;
+  const stride = gridWidth + 1;
+  const table = new Float64Array((gridHeight + 1) * stride);
+  for (let row = 0; row < gridHeight; row++) {
+    let rowSum = 0;
+    for (let col = 0; col < gridWidth; col++) {
+      rowSum += data[row][col];
+      table[(row + 1) * stride + col + 1] = table[row * stride + col + 1] + rowSum;
+    }
+  }
+  summedAreaTables.set(data, table);
+  return table;
+}
+
+// Population of the cells in rows row0 to row1 and columns col0 to col1, inclusive
+export function populationInRectangle(
+  grid: PopulationGrid,
+  row0: number,
+  col0: number,
+  row1: number,
+  col1: number
+): number {
+  const table = summedAreaTable(grid);
+  const stride = (grid.data[0]?.length || 0) + 1;
+  return table[(row1 + 1) * stride + col1 + 1] - table[row0 * stride + col1 + 1]
+    - table[(row1 + 1) * stride + col0] + table[row0 * stride + col0];
+}
+
+// Population within a circle, counting cells on the edge by the share inside
+// Runs of whole cells are summed from the summed-area table, so the cost grows with the
+// circle's height and perimeter in cells rather than its area
+export function populationInCircle(
+  grid: PopulationGrid,
+  center: { lat: number; lng: number },
+  radiusMeters: number
+): number {
+  return circleRowSpans(grid, center, radiusMeters).reduce((sum, { row, inside, edge }) =>
+    sum
+      + (inside ? populationInRectangle(grid, row, inside[0], row, inside[1]) : 0)
+      + edge.reduce((edgeSum, { col, fraction }) => edgeSum + grid.data[row][col] * fraction, 0),
+  0);
+}
+
+// Population within a [lat, lng] polygon such as a fallout contour
+export function populationInPolygon(grid: PopulationGrid, polygon: Array<[number, number]>): number {
+  return polygonCellOverlaps(grid, polygon)
+    .reduce((sum, { row, col, fraction }) => sum + grid.data[row][col] * fraction, 0);
+}
+
 // Cache for API responses to avoid rate limiting
 const apiCache = new Map<string, { data: PopulationGrid; timestamp: number }>();
 const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
 
 // Fetch population data from OpenStreetMap Overpass API
 async function fetchOSMPopulationData(
-  lat: number,
-  lng: number,
-  radiusKm: number
+  bounds: GridBounds,
+  resolution: number
 ): Promise<PopulationGrid | null> {
   // Check cache first
-  const cacheKey = `${lat.toFixed(4)}-${lng.toFixed(4)}-${radiusKm}`;
+  const { north, south, east, west } = bounds;
+  const cacheKey = `${[south, west, north, east].map(v => v.toFixed(4)).join('-')}-${resolution}`;
   const cached = apiCache.get(cacheKey);
   if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
     console.log('Using cached OSM data');
@@ -95,8 +329,8 @@ async function fetchOSMPopulationData(
     const query = `
       [out:json][timeout:25];
       (
-        way["building"](around:${radiusKm * 1000},${lat},${lng});
-        relation["building"](around:${radiusKm * 1000},${lat},${lng});
+        way["building"](${south},${west},${north},${east});
+        relation["building"](${south},${west},${north},${east});
       );
       out center;
     `;
@@ -123,16 +357,22 @@ async function fetchOSMPopulationData(
     const data = await response.json();
     
     // Create a population grid from building data
-    const bounds = {
-      north: lat + (radiusKm / 111),
-      south: lat - (radiusKm / 111),
-      east: lng + (radiusKm / (111 * Math.cos(lat * Math.PI / 180))),
-      west: lng - (radiusKm / (111 * Math.cos(lat * Math.PI / 180))),
+    const { rows, cols } = gridDimensions(bounds, resolution);
+    const emptyGrid = () => Array(rows).fill(null).map(() => Array(cols).fill(0));
+    const grid: number[][] = emptyGrid();
+    const floorArea: number[][] = emptyGrid();
+    const occupancy: Record<OccupancyClass, number[][]> = {
+      residential: emptyGrid(),
+      commercial: emptyGrid(),
+      school: emptyGrid(),
+      hospital: emptyGrid(),
+    };
+    const buildings: Record<ConstructionType, number[][]> = {
+      'wood-frame': emptyGrid(),
+      'masonry': emptyGrid(),
+      'reinforced-concrete': emptyGrid(),
+      'steel-frame': emptyGrid(),
     };
-    
-    // Create a 100x100 grid
-    const gridSize = 100;
-    const grid: number[][] = Array(gridSize).fill(null).map(() => Array(gridSize).fill(0));
     
     // Estimate population based on building density and type
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -142,37 +382,52 @@ async function fetchOSMPopulationData(
         const buildingLng = element.center.lon;
         
         // Map to grid coordinates
-        const row = Math.floor((buildingLat - bounds.south) / (bounds.north - bounds.south) * gridSize);
-        const col = Math.floor((buildingLng - bounds.west) / (bounds.east - bounds.west) * gridSize);
+        const row = Math.floor((buildingLat - south) / (north - south) * rows);
+        const col = Math.floor((buildingLng - west) / (east - west) * cols);
         
-        if (row >= 0 && row < gridSize && col >= 0 && col < gridSize) {
+        if (row >= 0 && row < rows && col >= 0 && col < cols) {
           // Estimate occupants based on building type
           const buildingType = element.tags?.building || 'yes';
           const levels = parseInt(element.tags?.['building:levels']) || 1;
           
           let occupantsPerLevel = 4; // default residential
+          let footprint = 150; // m², typical small building
           
           if (buildingType === 'apartments' || buildingType === 'residential') {
             occupantsPerLevel = 6;
+            footprint = 500;
           } else if (buildingType === 'house') {
             occupantsPerLevel = 4;
+            footprint = 120;
           } else if (buildingType === 'commercial' || buildingType === 'office') {
-            occupantsPerLevel = 20; // Higher density during work hours
+            occupantsPerLevel = 20; // Workers at peak occupancy
+            footprint = 1000;
           } else if (buildingType === 'school' || buildingType === 'university') {
             occupantsPerLevel = 50;
+            footprint = 2000;
           } else if (buildingType === 'hospital') {
             occupantsPerLevel = 30;
+            footprint = 3000;
           }
           
           grid[row][col] += occupantsPerLevel * levels;
+          // Occupants by class, redistributed by time of day in applyScenarioTime
+          occupancy[occupancyClassForBuilding(buildingType)][row][col] += occupantsPerLevel * levels;
+          // Floor area doubles as urban fuel loading for the fire model
+          floorArea[row][col] += footprint * levels;
+          // Construction class for the building damage model
+          buildings[constructionTypeForBuilding(buildingType, levels, element.tags?.['building:material'])][row][col]++;
         }
       }
     });
     
     const result = {
       bounds,
-      resolution: radiusKm * 1000 / gridSize,
+      resolution,
       data: grid,
+      floorArea,
+      occupancy,
+      buildings,
     };
     
     // Cache the result
@@ -186,49 +441,57 @@ async function fetchOSMPopulationData(
   }
 }
 
-// Fetch population density from a dedicated API (using a public endpoint)
+// Seed for synthetic population at a location, so the same spot always gives the same grid
+export const populationSeed = (bounds: GridBounds): number => {
+  const lat = (bounds.north + bounds.south) / 2;
+  const lng = (bounds.east + bounds.west) / 2;
+  return hashSeed(`${lat.toFixed(4)},${lng.toFixed(4)}`);
+};
+
+// Parse a synthetic population seed from a URL parameter, undefined unless it is a 32-bit unsigned integer
+export const parsePopulationSeed = (value: string | null): number | undefined => {
+  const seed = value ? Number(value) : NaN;
+  return Number.isInteger(seed) && seed >= 0 && seed <= 0xFFFFFFFF ? seed : undefined;
+};
+
+// Synthetic population density: a radial urban gradient with seeded noise, not real data
+// The noise uses the scenario's seed when one is given, otherwise one derived from the location
 async function fetchPopulationDensityAPI(
-  lat: number,
-  lng: number,
-  radiusKm: number
+  bounds: GridBounds,
+  resolution: number,
+  options: PopulationRequestOptions = {}
 ): Promise<PopulationGrid | null> {
   try {
-    // Using NASA's SEDAC population density data API
-    // This is a simplified example - real implementation would need proper API access
-    const gridSize = 50;
-    const bounds = {
-      north: lat + (radiusKm / 111),
-      south: lat - (radiusKm / 111),
-      east: lng + (radiusKm / (111 * Math.cos(lat * Math.PI / 180))),
-      west: lng - (radiusKm / (111 * Math.cos(lat * Math.PI / 180))),
-    };
+    const { rows, cols } = gridDimensions(bounds, resolution);
+    const seed = options.seed ?? populationSeed(bounds);
+    const random = createSeededRandom(seed);
     
     // Create synthetic population data based on urban patterns
-    const grid: number[][] = Array(gridSize).fill(null).map(() => Array(gridSize).fill(0));
+    const grid: number[][] = Array(rows).fill(null).map(() => Array(cols).fill(0));
     
     // Generate realistic population distribution
-    const centerRow = gridSize / 2;
-    const centerCol = gridSize / 2;
+    const centerRow = rows / 2;
+    const centerCol = cols / 2;
     
-    for (let row = 0; row < gridSize; row++) {
-      for (let col = 0; col < gridSize; col++) {
-        // Distance from center in grid units
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        // Distance from center as a share of the grid size
         const distance = Math.sqrt(
-          Math.pow(row - centerRow, 2) + Math.pow(col - centerCol, 2)
+          Math.pow((row - centerRow) / rows, 2) + Math.pow((col - centerCol) / cols, 2)
         );
         
         // Create urban density gradient
-        const maxDistance = Math.sqrt(2) * gridSize / 2;
+        const maxDistance = Math.sqrt(2) / 2;
         const normalizedDistance = distance / maxDistance;
         
         // Population density decreases with distance from center
         // Add some noise for realism
         const baseDensity = Math.max(0, 1 - normalizedDistance * 0.7);
-        const noise = (Math.random() - 0.5) * 0.3;
+        const noise = (random() - 0.5) * 0.3;
         const density = Math.max(0, baseDensity + noise);
         
         // Convert to population per grid cell
-        const cellAreaKm2 = Math.pow(radiusKm * 2 / gridSize, 2);
+        const cellAreaKm2 = Math.pow(resolution / 1000, 2);
         const populationDensityPerKm2 = density * 10000; // Max 10,000 people/km²
         
         grid[row][col] = Math.round(populationDensityPerKm2 * cellAreaKm2);
@@ -237,8 +500,9 @@ async function fetchPopulationDensityAPI(
     
     return {
       bounds,
-      resolution: radiusKm * 2000 / gridSize,
+      resolution,
       data: grid,
+      seed,
     };
     
   } catch (error) {
@@ -247,70 +511,112 @@ async function fetchPopulationDensityAPI(
   }
 }
 
-// Main function to fetch population data with fallbacks
+// Built-in providers, in the default order they are tried
+// Local rasters come first; without a raster manifest they return null straight away
+const BUILT_IN_PROVIDERS: PopulationProvider[] = [
+  localRasterProvider,
+  {
+    id: 'osm-buildings',
+    name: 'OpenStreetMap building data',
+    basis: 'buildings',
+    coverage: 'global',
+    confidence: 0.6,
+    fetchGrid: fetchOSMPopulationData,
+  },
+  {
+    id: 'synthetic-density',
+    name: 'Synthetic urban density pattern',
+    basis: 'synthetic',
+    coverage: 'global',
+    confidence: 0.1,
+    fetchGrid: fetchPopulationDensityAPI,
+  },
+];
+
+// Providers by id, in registration order
+const providerRegistry = new Map<string, PopulationProvider>(
+  BUILT_IN_PROVIDERS.map(provider => [provider.id, provider])
+);
+
+// Provider ids to try, in order. Deployments can set NEXT_PUBLIC_POPULATION_PROVIDERS to a
+// comma-separated list; when unset every registered provider is tried in registration order.
+let providerOrder: string[] | null = process.env.NEXT_PUBLIC_POPULATION_PROVIDERS
+  ? process.env.NEXT_PUBLIC_POPULATION_PROVIDERS.split(',').map(id => id.trim()).filter(Boolean)
+  : null;
+
+// Add a provider, replacing any registered with the same id
+export function registerPopulationProvider(provider: PopulationProvider): void {
+  providerRegistry.set(provider.id, provider);
+}
+
+// Only the listed providers are tried, in the listed order; null restores registration order
+export function setPopulationProviderOrder(ids: string[] | null): void {
+  providerOrder = ids;
+}
+
+// Providers in the order they are tried, skipping unknown ids
+export function getPopulationProviders(): PopulationProvider[] {
+  if (!providerOrder) return [...providerRegistry.values()];
+  return providerOrder.flatMap(id => {
+    const provider = providerRegistry.get(id);
+    return provider ? [provider] : [];
+  });
+}
+
+// Whether a provider has data for the center of the requested bounds
+function providerCovers(provider: PopulationProvider, bounds: GridBounds): boolean {
+  if (provider.coverage === 'global') return true;
+  const lat = (bounds.north + bounds.south) / 2;
+  const lng = (bounds.east + bounds.west) / 2;
+  const { north, south, east, west } = provider.coverage;
+  return lat >= south && lat <= north && lng >= west && lng <= east;
+}
+
+// Grid resolution requested from providers
+const DEFAULT_GRID_RESOLUTION = 400; // meters
+
+// Main function to fetch population data, trying each provider in turn
 export async function fetchRealPopulationData(
   lat: number,
   lng: number,
-  maxRadiusKm: number
+  maxRadiusKm: number,
+  resolution: number = DEFAULT_GRID_RESOLUTION,
+  options: PopulationRequestOptions = {}
 ): Promise<PopulationGrid | null> {
-  // Try OSM data first (more accurate for urban areas)
-  const osmData = await fetchOSMPopulationData(lat, lng, maxRadiusKm);
-  if (osmData) {
-    console.log('Using OpenStreetMap building data for population estimates');
-    return osmData;
-  }
+  const bounds = {
+    north: lat + (maxRadiusKm / 111),
+    south: lat - (maxRadiusKm / 111),
+    east: lng + (maxRadiusKm / (111 * Math.cos(lat * Math.PI / 180))),
+    west: lng - (maxRadiusKm / (111 * Math.cos(lat * Math.PI / 180))),
+  };
   
-  // Fallback to population density API
-  const densityData = await fetchPopulationDensityAPI(lat, lng, maxRadiusKm);
-  if (densityData) {
-    console.log('Using population density API data');
-    return densityData;
+  for (const provider of getPopulationProviders()) {
+    if (!providerCovers(provider, bounds)) continue;
+    // A failing provider falls through to the next, like one without data
+    let grid: PopulationGrid | null;
+    try {
+      grid = await provider.fetchGrid(bounds, resolution, options);
+    } catch (error) {
+      console.error(`Error fetching population from ${provider.name}:`, error);
+      continue;
+    }
+    if (grid) {
+      const source = grid.source ?? {
+        id: provider.id,
+        name: provider.name,
+        basis: provider.basis,
+        confidence: provider.confidence,
+        ...(grid.seed !== undefined ? { seed: grid.seed } : {}),
+      };
+      console.log(`Using ${source.name} for population estimates`);
+      return { ...grid, source };
+    }
   }
   
-  // If all external sources fail, return null to use fallback estimates
+  // If all providers fail, return null to use fallback estimates
   console.log('External population data unavailable, using estimates');
   return null;
 }
 
-// Calculate casualties for multiple blast zones using real population data
-export function calculateCasualtiesWithRealData(
-  blastZones: Array<{ radius: number; fatalityRate: number }>,
-  populationGrid: PopulationGrid,
-  blastCenter: { lat: number; lng: number }
-): Array<{ radius: number; populationAffected: number; fatalities: number }> {
-  const results = [];
-  let cumulativeFatalities = 0;
-  
-  // Sort zones by radius (smallest first)
-  const sortedZones = [...blastZones].sort((a, b) => a.radius - b.radius);
-  
-  for (let i = 0; i < sortedZones.length; i++) {
-    const zone = sortedZones[i];
-    const innerRadius = i > 0 ? sortedZones[i - 1].radius : 0;
-    
-    // Calculate population in this ring
-    const totalPopInZone = calculatePopulationInCircle(blastCenter, zone.radius, populationGrid);
-    const totalPopInInnerZone = innerRadius > 0 
-      ? calculatePopulationInCircle(blastCenter, innerRadius, populationGrid) 
-      : 0;
-    
-    const ringPopulation = totalPopInZone - totalPopInInnerZone;
-    
-    // Account for people already killed in inner zones
-    const survivingPopulation = Math.max(0, ringPopulation - cumulativeFatalities);
-    const zoneFatalities = Math.round(survivingPopulation * zone.fatalityRate);
-    
-    results.push({
-      radius: zone.radius,
-      populationAffected: ringPopulation,
-      fatalities: zoneFatalities,
-    });
-    
-    cumulativeFatalities += zoneFatalities;
-  }
-  
-  return results;
-}
-
 // Export types for use in other modules
-export type { PopulationGrid, PopulationPoint };
\ No newline at end of file
+export type { CellOverlap, GridBounds, PopulationBasis, PopulationGrid, PopulationPoint, PopulationProvider, PopulationRequestOptions, PopulationSource };
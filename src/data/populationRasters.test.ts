@@ -0,0 +1,231 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { GridBounds, PopulationGrid } from './populationDataSources';
+
+// A 400 × 400 raster of 0.001° pixels, each holding 2 people
+const SIZE = 400;
+const CELL = 0.001;
+const WEST = 139.5;
+const NORTH = 35.9;
+const PEOPLE_PER_PIXEL = 2;
+
+// Bounds well inside the raster, away from the start of the file
+const bounds: GridBounds = { north: 35.65, south: 35.62, east: 139.83, west: 139.79 };
+const expectedPopulation = PEOPLE_PER_PIXEL * ((bounds.north - bounds.south) / CELL) * ((bounds.east - bounds.west) / CELL);
+
+// Little-endian float32 GeoTIFF with one strip per row
+const geoTiff = (): Uint8Array => {
+  const entries: Array<[tag: number, type: number, values: number[]]> = [
+    [256, 3, [SIZE]], // ImageWidth
+    [257, 3, [SIZE]], // ImageLength
+    [258, 3, [32]], // BitsPerSample
+    [259, 3, [1]], // Compression
+    [273, 4, Array(SIZE).fill(0)], // StripOffsets, filled in below
+    [277, 3, [1]], // SamplesPerPixel
+    [278, 3, [1]], // RowsPerStrip
+    [279, 4, Array(SIZE).fill(SIZE * 4)], // StripByteCounts
+    [339, 3, [3]], // SampleFormat
+    [33550, 12, [CELL, CELL, 0]], // ModelPixelScale
+    [33922, 12, [0, 0, 0, WEST, NORTH, 0]], // ModelTiepoint
+  ];
+  const typeSize = (type: number) => (type === 12 ? 8 : type === 4 ? 4 : 2);
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const valuesSize = (type: number, values: number[]) => typeSize(type) * values.length;
+  const extraSize = entries.reduce((sum, [, type, values]) => sum + (valuesSize(type, values) > 4 ? valuesSize(type, values) : 0), 0);
+  const dataStart = 8 + ifdSize + extraSize;
+  entries[4][2] = Array.from({ length: SIZE }, (_, row) => dataStart + row * SIZE * 4);
+
+  const bytes = new Uint8Array(dataStart + SIZE * SIZE * 4);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49]);
+  view.setUint16(2, 42, true);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entries.length, true);
+
+  let extra = 8 + ifdSize;
+  entries.forEach(([tag, type, values], i) => {
+    const entry = 10 + i * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, values.length, true);
+    const write = (offset: number, value: number) => {
+      if (type === 12) view.setFloat64(offset, value, true);
+      else if (type === 4) view.setUint32(offset, value, true);
+      else view.setUint16(offset, value, true);
+    };
+    if (valuesSize(type, values) <= 4) {
+      values.forEach((value, j) => write(entry + 8 + j * typeSize(type), value));
+    } else {
+      view.setUint32(entry + 8, extra, true);
+      values.forEach((value, j) => write(extra + j * typeSize(type), value));
+      extra += valuesSize(type, values);
+    }
+  });
+
+  for (let i = 0; i < SIZE * SIZE; i++) view.setFloat32(dataStart + i * 4, PEOPLE_PER_PIXEL, true);
+  return bytes;
+};
+
+const asciiGrid = (corner = { west: String(WEST), south: String(NORTH - SIZE * CELL) }, value = String(PEOPLE_PER_PIXEL)): string => {
+  const header = `ncols ${SIZE}\nnrows ${SIZE}\nxllcorner ${corner.west}\nyllcorner ${corner.south}\ncellsize ${CELL}\nNODATA_value -9999\n`;
+  const row = Array(SIZE).fill(value).join(' ');
+  return header + Array(SIZE).fill(row).join('\n') + '\n';
+};
+
+// Response streaming a file in small chunks, counting the bytes the reader pulled
+const streamed = (bytes: Uint8Array, status: number, headers: Record<string, string>, counter: { bytes: number }) => {
+  let position = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull: controller => {
+      if (position >= bytes.length) {
+        controller.close();
+        return;
+      }
+      const chunk = bytes.subarray(position, position + 4096);
+      position += chunk.length;
+      counter.bytes += chunk.length;
+      controller.enqueue(chunk);
+    },
+  });
+  return new Response(body, { status, headers });
+};
+
+interface ServedFile {
+  bytes: Uint8Array;
+  ranges: boolean; // whether the server honours Range
+  contentLength?: number;
+}
+
+// Serve the manifest and one raster file, recording what was fetched
+const serve = (url: string, file: ServedFile, format?: 'ascii') => {
+  const fetched = { bytes: 0, ranges: [] as string[] };
+  vi.stubGlobal('fetch', vi.fn(async (input: string, init?: RequestInit) => {
+    if (input.endsWith('rasters.json')) {
+      return Response.json({ rasters: [{ name: 'Test raster', url, format }] });
+    }
+    const range = (init?.headers as Record<string, string> | undefined)?.Range;
+    const match = range && file.ranges ? /bytes=(\d+)-(\d+)/.exec(range) : null;
+    if (!match) {
+      const headers: Record<string, string> = { 'Content-Length': String(file.contentLength ?? file.bytes.length) };
+      return streamed(file.bytes, 200, headers, fetched);
+    }
+    fetched.ranges.push(range!);
+    const start = Number(match[1]);
+    const end = Math.min(Number(match[2]) + 1, file.bytes.length);
+    fetched.bytes += end - start;
+    return new Response(file.bytes.slice(start, end), { status: 206 });
+  }));
+  return fetched;
+};
+
+// Serve a manifest listing several ASCII grids, each answered by its own handler
+const serveAscii = (files: Record<string, () => Response | string>) => {
+  vi.stubGlobal('fetch', vi.fn(async (input: string) => {
+    if (input.endsWith('rasters.json')) {
+      return Response.json({ rasters: Object.keys(files).map(url => ({ name: url, url, format: 'ascii' })) });
+    }
+    const file = files[input]();
+    return typeof file === 'string' ? new Response(file) : file;
+  }));
+};
+
+const loadGrid = async (): Promise<PopulationGrid | null> => {
+  // The manifest and opened files are cached per module
+  vi.resetModules();
+  const { localRasterProvider } = await import('./populationRasters');
+  return localRasterProvider.fetchGrid(bounds, 500);
+};
+
+const gridTotal = (grid: PopulationGrid) => grid.data.flat().reduce((sum, value) => sum + value, 0);
+
+describe('local population rasters', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('reads only the header and the strips inside the bounds of a GeoTIFF', async () => {
+    const file = geoTiff();
+    const fetched = serve('/data/population/test.tif', { bytes: file, ranges: true });
+    const grid = await loadGrid();
+
+    expect(grid).not.toBeNull();
+    expect(gridTotal(grid!) / expectedPopulation).toBeCloseTo(1, 3);
+    // The header, then one merged run of strips
+    expect(fetched.ranges).toHaveLength(2);
+    expect(fetched.bytes).toBeLessThan(file.length / 4);
+  });
+
+  it('reads a small GeoTIFF whole when the server ignores Range', async () => {
+    serve('/data/population/test.tif', { bytes: geoTiff(), ranges: false });
+    const grid = await loadGrid();
+    expect(gridTotal(grid!) / expectedPopulation).toBeCloseTo(1, 3);
+  });
+
+  it('refuses a large GeoTIFF when the server ignores Range', async () => {
+    const file = geoTiff();
+    const { MAX_FULL_DOWNLOAD_BYTES } = await import('./populationRasters');
+    const fetched = serve('/data/population/test.tif', { bytes: file, ranges: false, contentLength: MAX_FULL_DOWNLOAD_BYTES + 1 });
+
+    expect(await loadGrid()).toBeNull();
+    expect(fetched.bytes).toBeLessThan(file.length);
+  });
+
+  it('streams an ASCII grid and stops after the rows inside the bounds', async () => {
+    const file = new TextEncoder().encode(asciiGrid());
+    const fetched = serve('/data/population/test.asc', { bytes: file, ranges: false }, 'ascii');
+    const grid = await loadGrid();
+
+    expect(gridTotal(grid!) / expectedPopulation).toBeCloseTo(1, 3);
+    // The bounds end 280 rows into the 400
+    expect(fetched.bytes).toBeLessThan(file.length * 0.8);
+  });
+
+  it('treats nan values as no data', async () => {
+    serveAscii({ '/data/population/test.asc': () => asciiGrid(undefined, 'nan') });
+    const grid = await loadGrid();
+    expect(grid).not.toBeNull();
+    expect(gridTotal(grid!)).toBe(0);
+  });
+
+  it('rejects an ASCII grid without a finite corner', async () => {
+    serveAscii({ '/data/population/test.asc': () => asciiGrid({ west: 'nan', south: String(NORTH - SIZE * CELL) }) });
+    expect(await loadGrid()).toBeNull();
+    expect(console.error).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      message: expect.stringContaining('xllcorner'),
+    }));
+  });
+
+  it('rejects an ASCII grid with an unknown header field', async () => {
+    serveAscii({ '/data/population/test.asc': () => asciiGrid().replace('cellsize', 'dx') });
+    expect(await loadGrid()).toBeNull();
+    expect(console.error).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({
+      message: expect.stringContaining('"dx"'),
+    }));
+  });
+
+  it('falls through to the next raster when one fails', async () => {
+    serveAscii({
+      '/data/population/missing.asc': () => new Response(null, { status: 404 }),
+      '/data/population/test.asc': () => asciiGrid(),
+    });
+    const grid = await loadGrid();
+    expect(gridTotal(grid!) / expectedPopulation).toBeCloseTo(1, 3);
+  });
+
+  it('opens a raster again after a failed attempt', async () => {
+    let attempts = 0;
+    serveAscii({
+      '/data/population/test.asc': () => (++attempts === 1 ? new Response(null, { status: 503 }) : asciiGrid()),
+    });
+    vi.resetModules();
+    const { localRasterProvider } = await import('./populationRasters');
+
+    expect(await localRasterProvider.fetchGrid(bounds, 500)).toBeNull();
+    const grid = await localRasterProvider.fetchGrid(bounds, 500);
+    expect(gridTotal(grid!) / expectedPopulation).toBeCloseTo(1, 3);
+  });
+});
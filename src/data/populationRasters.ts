@@ -0,0 +1,721 @@
+import type { GridBounds, PopulationGrid, PopulationProvider } from './populationDataSources';
+
+// Gridded population rasters such as GPW, WorldPop or GHS-POP read from local files, for
+// machines without network access. Rasters are listed in a manifest served with the app:
+//
+//   { "rasters": [{ "name": "WorldPop 2020 Japan", "url": "/data/population/jpn_ppp_2020.tif" }] }
+//
+// Each entry may also give "format" ("geotiff" or "ascii", otherwise taken from the file
+// extension), "units" ("count" for people per pixel, the default, or "density" for people
+// per km²), "confidence" (0-1) and "bounds" ({ north, south, east, west }) so files that
+// don't cover the target are not loaded. Rasters must be in geographic coordinates (WGS84).
+//
+// Files are never held in memory whole. GeoTIFFs are read with HTTP Range requests, the header
+// first and then only the strips or tiles inside the blast bounds; a server that ignores Range
+// may only serve files up to MAX_FULL_DOWNLOAD_BYTES. ASCII grids are streamed, keeping only the
+// rows inside the bounds, so large files should be GeoTIFFs.
+
+const RASTER_MANIFEST_URL = '/data/population/rasters.json';
+
+interface RasterManifestEntry {
+  name: string;
+  url: string;
+  format?: 'geotiff' | 'ascii';
+  units?: 'count' | 'density';
+  confidence?: number;
+  bounds?: GridBounds;
+}
+
+// A window of raster values
+interface Raster {
+  west: number;
+  north: number;
+  cellWidth: number; // degrees
+  cellHeight: number; // degrees
+  width: number;
+  height: number;
+  values: Float32Array; // row-major from the north-west corner, NaN where there is no data
+}
+
+// A loaded raster file, read a window at a time
+interface RasterSource {
+  extent: GridBounds;
+  read: (bounds: GridBounds) => Promise<Raster>;
+}
+
+const DEFAULT_RASTER_CONFIDENCE = 0.8;
+
+// Bytes fetched with the first request, enough for the header and tags of most GeoTIFFs
+const HEADER_BYTES = 64 * 1024;
+
+// Largest file read whole when the server does not support Range requests
+export const MAX_FULL_DOWNLOAD_BYTES = 100 * 1024 * 1024;
+
+// Blocks this close together in the file are fetched with one request
+const RANGE_MERGE_GAP = 64 * 1024;
+
+// Rows and columns of a grid covering bounds at a resolution (meters per cell)
+export function gridDimensions(bounds: GridBounds, resolution: number): { rows: number; cols: number } {
+  const midLat = (bounds.north + bounds.south) / 2;
+  const heightMeters = (bounds.north - bounds.south) * 111000;
+  const widthMeters = (bounds.east - bounds.west) * 111000 * Math.cos(midLat * Math.PI / 180);
+  return {
+    rows: Math.max(1, Math.round(heightMeters / resolution)),
+    cols: Math.max(1, Math.round(widthMeters / resolution)),
+  };
+}
+
+// Pixel rows and columns, end exclusive
+interface PixelWindow {
+  row0: number;
+  row1: number;
+  col0: number;
+  col1: number;
+}
+
+// Pixel rows and columns of a raster overlapping bounds
+function pixelWindow(
+  geometry: { west: number; north: number; cellWidth: number; cellHeight: number; width: number; height: number },
+  bounds: GridBounds
+): PixelWindow {
+  const { west, north, cellWidth, cellHeight, width, height } = geometry;
+  return {
+    row0: Math.max(0, Math.floor((north - bounds.north) / cellHeight)),
+    row1: Math.min(height, Math.ceil((north - bounds.south) / cellHeight)),
+    col0: Math.max(0, Math.floor((bounds.west - west) / cellWidth)),
+    col1: Math.min(width, Math.ceil((bounds.east - west) / cellWidth)),
+  };
+}
+
+// Population values must be positive, anything else is treated as no data
+const cleanValue = (value: number, noData: number | null): number => {
+  return value < 0 || (noData !== null && value === noData) || !isFinite(value) ? NaN : value;
+};
+
+interface AsciiGridHeader {
+  width: number;
+  height: number;
+  cellSize: number;
+  west: number;
+  north: number;
+  noData: number | null;
+}
+
+// Keys of an ESRI ASCII grid header, the first token that is not one starts the values
+const ASCII_HEADER_KEYS = new Set(['ncols', 'nrows', 'xllcorner', 'xllcenter', 'yllcorner', 'yllcenter', 'cellsize', 'nodata_value']);
+
+// Words that parse as numbers, so they are values rather than unknown header keys
+const NUMERIC_WORD = /^[+-]?(nan|inf(inity)?)$/i;
+
+const asciiGridHeader = (fields: Record<string, number>): AsciiGridHeader => {
+  const { ncols: width, nrows: height, cellsize: cellSize } = fields;
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error(`ASCII grid has invalid ncols or nrows (${width}, ${height})`);
+  }
+  if (!isFinite(cellSize) || cellSize <= 0) {
+    throw new Error(`ASCII grid has invalid cellsize (${cellSize})`);
+  }
+  if (cellSize > 1) {
+    throw new Error('ASCII grid appears to be projected, only geographic (WGS84) grids are supported');
+  }
+  const west = fields.xllcorner ?? fields.xllcenter - cellSize / 2;
+  const south = fields.yllcorner ?? fields.yllcenter - cellSize / 2;
+  if (!isFinite(west) || !isFinite(south)) {
+    throw new Error('ASCII grid is missing a finite xllcorner/xllcenter or yllcorner/yllcenter');
+  }
+  const noData = fields.nodata_value ?? null;
+  return { width, height, cellSize, west, north: south + height * cellSize, noData: noData !== null && isFinite(noData) ? noData : null };
+};
+
+// Stream an ESRI ASCII grid (a short header followed by rows of values from the north),
+// keeping only the values inside the window chosen from the header. The download stops after
+// the last row of the window.
+async function scanAsciiGrid(
+  url: string,
+  chooseWindow: (header: AsciiGridHeader) => PixelWindow
+): Promise<{ header: AsciiGridHeader; window: PixelWindow; values: Float32Array }> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`Population raster error: ${response.status}`);
+  }
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+
+  const fields: Record<string, number> = {};
+  let key: string | null = null;
+  let scan: { header: AsciiGridHeader; window: PixelWindow; values: Float32Array } | null = null;
+  let index = 0; // values read so far
+  let pending = ''; // a value cut by the end of a chunk
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      const tokens = (pending + (value ?? '')).split(/\s+/);
+      pending = done ? '' : tokens.pop() ?? '';
+
+      for (const token of tokens) {
+        if (!token) continue;
+        if (!scan) {
+          if (key) {
+            fields[key] = Number(token);
+            key = null;
+            continue;
+          }
+          if (ASCII_HEADER_KEYS.has(token.toLowerCase())) {
+            key = token.toLowerCase();
+            continue;
+          }
+          if (/^[a-zA-Z]/.test(token) && !NUMERIC_WORD.test(token)) {
+            throw new Error(`ASCII grid has an unknown header field "${token}"`);
+          }
+          const header = asciiGridHeader(fields);
+          const window = chooseWindow(header);
+          const size = Math.max(0, window.col1 - window.col0) * Math.max(0, window.row1 - window.row0);
+          scan = { header, window, values: new Float32Array(size).fill(NaN) };
+        }
+
+        const { header, window, values } = scan;
+        const row = Math.floor(index / header.width);
+        const col = index % header.width;
+        index++;
+        if (row >= window.row1) return scan;
+        if (row >= window.row0 && col >= window.col0 && col < window.col1) {
+          values[(row - window.row0) * (window.col1 - window.col0) + col - window.col0] =
+            cleanValue(parseFloat(token), header.noData);
+        }
+      }
+      if (done) break;
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  if (!scan) {
+    throw new Error('ASCII grid has no values');
+  }
+  if (index < Math.min(scan.window.row1, scan.header.height) * scan.header.width) {
+    throw new Error(`ASCII grid has ${index} values, expected ${scan.header.width * scan.header.height}`);
+  }
+  return scan;
+}
+
+async function openAsciiGrid(url: string): Promise<RasterSource> {
+  // The header alone gives the extent
+  const { header } = await scanAsciiGrid(url, () => ({ row0: 0, row1: 0, col0: 0, col1: 0 }));
+  const { width, height, cellSize, west, north } = header;
+  const geometry = { west, north, cellWidth: cellSize, cellHeight: cellSize, width, height };
+
+  return {
+    extent: { north, south: north - height * cellSize, east: west + width * cellSize, west },
+    read: async (bounds) => {
+      const { window, values } = await scanAsciiGrid(url, () => pixelWindow(geometry, bounds));
+      return {
+        west: west + window.col0 * cellSize,
+        north: north - window.row0 * cellSize,
+        cellWidth: cellSize,
+        cellHeight: cellSize,
+        width: Math.max(0, window.col1 - window.col0),
+        height: Math.max(0, window.row1 - window.row0),
+        values,
+      };
+    },
+  };
+}
+
+// Random access to the bytes of a raster file
+interface ByteSource {
+  read: (offset: number, length: number) => Promise<Uint8Array>;
+}
+
+// Body of a response, refusing files larger than limit
+async function readLimited(response: Response, limit: number): Promise<Uint8Array> {
+  const declared = Number(response.headers.get('Content-Length'));
+  if (declared > limit || !response.body) {
+    await response.body?.cancel();
+    throw new Error(`Population raster is larger than ${limit / 1024 / 1024} MB and the server does not support Range requests`);
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.length;
+    if (length > limit) {
+      await reader.cancel();
+      throw new Error(`Population raster is larger than ${limit / 1024 / 1024} MB and the server does not support Range requests`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return bytes;
+}
+
+// Read a file with HTTP Range requests, or whole if the server ignores Range and it is small enough
+async function openByteSource(url: string): Promise<ByteSource> {
+  const response = await fetch(url, { headers: { Range: `bytes=0-${HEADER_BYTES - 1}` } });
+  if (!response.ok) {
+    throw new Error(`Population raster error: ${response.status}`);
+  }
+
+  if (response.status !== 206) {
+    const file = await readLimited(response, MAX_FULL_DOWNLOAD_BYTES);
+    return { read: async (offset, length) => file.subarray(offset, offset + length) };
+  }
+
+  const head = new Uint8Array(await response.arrayBuffer());
+  return {
+    read: async (offset, length) => {
+      if (offset + length <= head.length) return head.subarray(offset, offset + length);
+      const ranged = await fetch(url, { headers: { Range: `bytes=${offset}-${offset + length - 1}` } });
+      if (ranged.status !== 206) {
+        await ranged.body?.cancel();
+        throw new Error(`Population raster range request failed: ${ranged.status}`);
+      }
+      return new Uint8Array(await ranged.arrayBuffer());
+    },
+  };
+}
+
+// TIFF tags used to read single-band GeoTIFFs
+const TIFF_TAGS = {
+  imageWidth: 256,
+  imageLength: 257,
+  bitsPerSample: 258,
+  compression: 259,
+  stripOffsets: 273,
+  samplesPerPixel: 277,
+  rowsPerStrip: 278,
+  stripByteCounts: 279,
+  predictor: 317,
+  tileWidth: 322,
+  tileLength: 323,
+  tileOffsets: 324,
+  tileByteCounts: 325,
+  sampleFormat: 339,
+  modelPixelScale: 33550,
+  modelTiepoint: 33922,
+  geoKeyDirectory: 34735,
+  gdalNoData: 42113,
+};
+
+// Size in bytes of each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = {
+  1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 16: 8, 17: 8, 18: 8,
+};
+
+function readTiffValue(view: DataView, offset: number, type: number, little: boolean): number {
+  switch (type) {
+    case 3: return view.getUint16(offset, little);
+    case 4: return view.getUint32(offset, little);
+    case 5: return view.getUint32(offset, little) / view.getUint32(offset + 4, little);
+    case 6: return view.getInt8(offset);
+    case 8: return view.getInt16(offset, little);
+    case 9: return view.getInt32(offset, little);
+    case 10: return view.getInt32(offset, little) / view.getInt32(offset + 4, little);
+    case 11: return view.getFloat32(offset, little);
+    case 12: return view.getFloat64(offset, little);
+    case 16: case 18: return Number(view.getBigUint64(offset, little));
+    case 17: return Number(view.getBigInt64(offset, little));
+    default: return view.getUint8(offset);
+  }
+}
+
+const viewOf = (bytes: Uint8Array): DataView => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+// Tags of the first image, numbers as arrays and ASCII as strings
+async function readFirstIfd(source: ByteSource): Promise<{ tags: Map<number, number[] | string>; little: boolean }> {
+  const header = viewOf(await source.read(0, 16));
+  const byteOrder = String.fromCharCode(header.getUint8(0), header.getUint8(1));
+  if (byteOrder !== 'II' && byteOrder !== 'MM') {
+    throw new Error('Not a TIFF file');
+  }
+  const little = byteOrder === 'II';
+  const version = header.getUint16(2, little);
+  const bigTiff = version === 43;
+  if (version !== 42 && !bigTiff) {
+    throw new Error(`Unsupported TIFF version ${version}`);
+  }
+
+  const ifdOffset = bigTiff ? Number(header.getBigUint64(8, little)) : header.getUint32(4, little);
+  const countView = viewOf(await source.read(ifdOffset, bigTiff ? 8 : 2));
+  const entryCount = bigTiff ? Number(countView.getBigUint64(0, little)) : countView.getUint16(0, little);
+  const entrySize = bigTiff ? 20 : 12;
+  const inlineSize = bigTiff ? 8 : 4;
+  const entries = viewOf(await source.read(ifdOffset + (bigTiff ? 8 : 2), entryCount * entrySize));
+  const tags = new Map<number, number[] | string>();
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = i * entrySize;
+    const tag = entries.getUint16(entry, little);
+    const type = entries.getUint16(entry + 2, little);
+    const count = bigTiff ? Number(entries.getBigUint64(entry + 4, little)) : entries.getUint32(entry + 4, little);
+    const valuePosition = entry + (bigTiff ? 12 : 8);
+    const size = (TIFF_TYPE_SIZES[type] ?? 1) * count;
+
+    // Small values sit in the entry itself, larger ones elsewhere in the file
+    let values = entries;
+    let dataOffset = valuePosition;
+    if (size > inlineSize) {
+      const offset = bigTiff ? Number(entries.getBigUint64(valuePosition, little)) : entries.getUint32(valuePosition, little);
+      values = viewOf(await source.read(offset, size));
+      dataOffset = 0;
+    }
+
+    if (type === 2) {
+      const bytes = new Uint8Array(values.buffer, values.byteOffset + dataOffset, count);
+      tags.set(tag, new TextDecoder().decode(bytes).replace(/\0+$/, ''));
+    } else {
+      tags.set(tag, Array.from({ length: count }, (_, j) =>
+        readTiffValue(values, dataOffset + j * (TIFF_TYPE_SIZES[type] ?? 1), type, little)));
+    }
+  }
+
+  return { tags, little };
+}
+
+// TIFF flavour of LZW: MSB-first codes from 9 to 12 bits, widening one code early
+function decodeLzw(input: Uint8Array): Uint8Array {
+  const CLEAR_CODE = 256;
+  const END_CODE = 257;
+  const table: Uint8Array[] = Array.from({ length: 258 }, (_, i) => new Uint8Array([i]));
+  const chunks: Uint8Array[] = [];
+  let outputLength = 0;
+  let codeLength = 9;
+  let bitPosition = 0;
+  let previous: Uint8Array | null = null;
+
+  const concat = (entry: Uint8Array, byte: number): Uint8Array => {
+    const result = new Uint8Array(entry.length + 1);
+    result.set(entry);
+    result[entry.length] = byte;
+    return result;
+  };
+
+  while (bitPosition + codeLength <= input.length * 8) {
+    let code = 0;
+    for (let i = 0; i < codeLength; i++) {
+      const bit = (input[(bitPosition + i) >> 3] >> (7 - ((bitPosition + i) & 7))) & 1;
+      code = (code << 1) | bit;
+    }
+    bitPosition += codeLength;
+
+    if (code === END_CODE) break;
+    if (code === CLEAR_CODE) {
+      table.length = 258;
+      codeLength = 9;
+      previous = null;
+      continue;
+    }
+
+    let entry: Uint8Array;
+    if (code < table.length) {
+      entry = table[code];
+      if (previous) table.push(concat(previous, entry[0]));
+    } else if (previous && code === table.length) {
+      entry = concat(previous, previous[0]);
+      table.push(entry);
+    } else {
+      throw new Error('Corrupt LZW data');
+    }
+
+    chunks.push(entry);
+    outputLength += entry.length;
+    previous = entry;
+    if (table.length + 1 >= 1 << codeLength) codeLength = Math.min(12, codeLength + 1);
+  }
+
+  const output = new Uint8Array(outputLength);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+}
+
+// zlib-wrapped Deflate, as used by TIFF compression 8
+async function inflate(input: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([new Uint8Array(input)]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+type SampleArray = Uint8Array | Uint16Array | Uint32Array | Int8Array | Int16Array | Int32Array | Float32Array | Float64Array;
+
+// Typed array for one row of samples, so predictor sums wrap like the stored type
+function sampleArray(bits: number, format: number, length: number): SampleArray {
+  if (format === 3) return bits === 64 ? new Float64Array(length) : new Float32Array(length);
+  if (format === 2) return bits === 8 ? new Int8Array(length) : bits === 16 ? new Int16Array(length) : new Int32Array(length);
+  return bits === 8 ? new Uint8Array(length) : bits === 16 ? new Uint16Array(length) : new Uint32Array(length);
+}
+
+// Geographic GeoTIFF with a single band, stored in strips or tiles
+async function openGeoTiff(source: ByteSource): Promise<RasterSource> {
+  const { tags, little } = await readFirstIfd(source);
+  const numbers = (tag: number): number[] | undefined => {
+    const value = tags.get(tag);
+    return Array.isArray(value) ? value : undefined;
+  };
+  const single = (tag: number, fallback: number): number => numbers(tag)?.[0] ?? fallback;
+
+  const width = single(TIFF_TAGS.imageWidth, 0);
+  const height = single(TIFF_TAGS.imageLength, 0);
+  const bits = single(TIFF_TAGS.bitsPerSample, 8);
+  const format = single(TIFF_TAGS.sampleFormat, 1);
+  const compression = single(TIFF_TAGS.compression, 1);
+  const predictor = single(TIFF_TAGS.predictor, 1);
+  if (single(TIFF_TAGS.samplesPerPixel, 1) !== 1) {
+    throw new Error('Only single-band GeoTIFFs are supported');
+  }
+  if (![1, 5, 8, 32946].includes(compression)) {
+    throw new Error(`Unsupported GeoTIFF compression ${compression}, use none, LZW or Deflate`);
+  }
+  if (predictor === 3) {
+    throw new Error('Floating point predictor is not supported, re-save without a predictor');
+  }
+
+  // Georeferencing from the tiepoint and pixel scale
+  const scale = numbers(TIFF_TAGS.modelPixelScale);
+  const tiepoint = numbers(TIFF_TAGS.modelTiepoint);
+  if (!scale || !tiepoint) {
+    throw new Error('GeoTIFF has no pixel scale or tiepoint');
+  }
+  const geoKeys = numbers(TIFF_TAGS.geoKeyDirectory) ?? [];
+  const geoKey = (id: number): number | undefined => {
+    for (let i = 4; i + 3 < geoKeys.length; i += 4) {
+      if (geoKeys[i] === id && geoKeys[i + 1] === 0) return geoKeys[i + 3];
+    }
+    return undefined;
+  };
+  if (geoKey(1024) === 1) {
+    throw new Error('GeoTIFF is projected, only geographic (WGS84) rasters are supported');
+  }
+  const [cellWidth, cellHeight] = scale;
+  const pixelIsPoint = geoKey(1025) === 2;
+  const west = tiepoint[3] - tiepoint[0] * cellWidth - (pixelIsPoint ? cellWidth / 2 : 0);
+  const north = tiepoint[4] + tiepoint[1] * cellHeight + (pixelIsPoint ? cellHeight / 2 : 0);
+
+  const noDataTag = tags.get(TIFF_TAGS.gdalNoData);
+  const noData = typeof noDataTag === 'string' && noDataTag.trim() !== ''
+    ? (format === 3 && bits === 32 ? Math.fround(parseFloat(noDataTag)) : parseFloat(noDataTag))
+    : null;
+
+  // Blocks are strips spanning the image width, or tiles
+  const tiled = tags.has(TIFF_TAGS.tileWidth);
+  const blockWidth = tiled ? single(TIFF_TAGS.tileWidth, width) : width;
+  const blockHeight = tiled ? single(TIFF_TAGS.tileLength, height) : single(TIFF_TAGS.rowsPerStrip, height);
+  const offsets = numbers(tiled ? TIFF_TAGS.tileOffsets : TIFF_TAGS.stripOffsets) ?? [];
+  const byteCounts = numbers(tiled ? TIFF_TAGS.tileByteCounts : TIFF_TAGS.stripByteCounts) ?? [];
+  const blocksAcross = Math.ceil(width / blockWidth);
+  const bytesPerSample = bits / 8;
+
+  const geometry = { west, north, cellWidth, cellHeight, width, height };
+  return {
+    extent: { north, south: north - height * cellHeight, east: west + width * cellWidth, west },
+    read: async (bounds) => {
+      const { row0, row1, col0, col1 } = pixelWindow(geometry, bounds);
+      const windowWidth = Math.max(0, col1 - col0);
+      const windowHeight = Math.max(0, row1 - row0);
+      const values = new Float32Array(windowWidth * windowHeight).fill(NaN);
+
+      // Blocks inside the window, fetched in runs of nearby blocks
+      const blocks = offsets.flatMap((offset, block) => {
+        const blockX = (block % blocksAcross) * blockWidth;
+        const blockY = Math.floor(block / blocksAcross) * blockHeight;
+        if (blockX >= col1 || blockX + blockWidth <= col0 || blockY >= row1 || blockY + blockHeight <= row0) return [];
+        return [{ blockX, blockY, offset, length: byteCounts[block] ?? 0 }];
+      }).filter(block => block.length > 0).sort((a, b) => a.offset - b.offset);
+      const runs: Array<{ start: number; end: number; blocks: typeof blocks }> = [];
+      blocks.forEach(block => {
+        const run = runs[runs.length - 1];
+        if (run && block.offset - run.end <= RANGE_MERGE_GAP) {
+          run.end = Math.max(run.end, block.offset + block.length);
+          run.blocks.push(block);
+        } else {
+          runs.push({ start: block.offset, end: block.offset + block.length, blocks: [block] });
+        }
+      });
+
+      for (const run of runs) {
+        const runBytes = await source.read(run.start, run.end - run.start);
+        for (const { blockX, blockY, offset, length } of run.blocks) {
+          const raw = runBytes.subarray(offset - run.start, offset - run.start + length);
+          const bytes = compression === 5 ? decodeLzw(raw) : compression === 1 ? raw : await inflate(raw);
+          const blockView = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+          const row = sampleArray(bits, format, blockWidth);
+
+          for (let y = 0; y < blockHeight; y++) {
+            const imageRow = blockY + y;
+            if (imageRow < row0 || imageRow >= row1) continue;
+            const rowStart = y * blockWidth * bytesPerSample;
+            if (rowStart + blockWidth * bytesPerSample > bytes.length) break;
+            for (let x = 0; x < blockWidth; x++) {
+              row[x] = readTiffValue(blockView, rowStart + x * bytesPerSample, tiffTypeFor(bits, format), little);
+            }
+            // Horizontal differencing stores each sample as the change from its left neighbour
+            if (predictor === 2) {
+              for (let x = 1; x < blockWidth; x++) row[x] += row[x - 1];
+            }
+            for (let x = 0; x < blockWidth; x++) {
+              const imageCol = blockX + x;
+              if (imageCol < col0 || imageCol >= col1) continue;
+              values[(imageRow - row0) * windowWidth + imageCol - col0] = cleanValue(row[x], noData);
+            }
+          }
+        }
+      }
+
+      return {
+        west: west + col0 * cellWidth,
+        north: north - row0 * cellHeight,
+        cellWidth,
+        cellHeight,
+        width: windowWidth,
+        height: windowHeight,
+        values,
+      };
+    },
+  };
+}
+
+// TIFF field type matching a sample's bit depth and format
+function tiffTypeFor(bits: number, format: number): number {
+  if (format === 3) return bits === 64 ? 12 : 11;
+  if (format === 2) return bits === 8 ? 6 : bits === 16 ? 8 : 9;
+  return bits === 8 ? 1 : bits === 16 ? 3 : 4;
+}
+
+// Spread raster pixels over a population grid by overlapping area
+// Pixels cut by the bounds contribute only the part inside them
+function resampleRaster(
+  raster: Raster,
+  bounds: GridBounds,
+  resolution: number,
+  units: RasterManifestEntry['units']
+): number[][] {
+  const { rows, cols } = gridDimensions(bounds, resolution);
+  const cellLat = (bounds.north - bounds.south) / rows;
+  const cellLng = (bounds.east - bounds.west) / cols;
+  const data: number[][] = Array(rows).fill(null).map(() => Array(cols).fill(0));
+
+  for (let pixelRow = 0; pixelRow < raster.height; pixelRow++) {
+    const pixelNorth = raster.north - pixelRow * raster.cellHeight;
+    const pixelSouth = pixelNorth - raster.cellHeight;
+    // Density rasters give people per km², pixel area shrinks towards the poles
+    const pixelAreaKm2 = raster.cellHeight * 111
+      * raster.cellWidth * 111 * Math.cos((pixelNorth + pixelSouth) / 2 * Math.PI / 180);
+
+    for (let pixelCol = 0; pixelCol < raster.width; pixelCol++) {
+      const value = raster.values[pixelRow * raster.width + pixelCol];
+      if (!(value > 0)) continue;
+      const people = units === 'density' ? value * pixelAreaKm2 : value;
+      const pixelWest = raster.west + pixelCol * raster.cellWidth;
+      const pixelEast = pixelWest + raster.cellWidth;
+
+      // Grid cells the pixel overlaps, row 0 is the southern edge
+      const rowStart = Math.max(0, Math.floor((pixelSouth - bounds.south) / cellLat));
+      const rowEnd = Math.min(rows - 1, Math.ceil((pixelNorth - bounds.south) / cellLat) - 1);
+      const colStart = Math.max(0, Math.floor((pixelWest - bounds.west) / cellLng));
+      const colEnd = Math.min(cols - 1, Math.ceil((pixelEast - bounds.west) / cellLng) - 1);
+
+      for (let row = rowStart; row <= rowEnd; row++) {
+        const cellSouth = bounds.south + row * cellLat;
+        const overlapLat = Math.min(pixelNorth, cellSouth + cellLat) - Math.max(pixelSouth, cellSouth);
+        if (overlapLat <= 0) continue;
+        for (let col = colStart; col <= colEnd; col++) {
+          const cellWest = bounds.west + col * cellLng;
+          const overlapLng = Math.min(pixelEast, cellWest + cellLng) - Math.max(pixelWest, cellWest);
+          if (overlapLng <= 0) continue;
+          data[row][col] += people * overlapLat * overlapLng / (raster.cellHeight * raster.cellWidth);
+        }
+      }
+    }
+  }
+
+  return data;
+}
+
+// Manifest and opened files (headers only) are kept for the session
+let manifestRequest: Promise<RasterManifestEntry[]> | null = null;
+const rasterSources = new Map<string, Promise<RasterSource>>();
+
+async function fetchManifest(): Promise<RasterManifestEntry[]> {
+  const response = await fetch(RASTER_MANIFEST_URL);
+  if (!response.ok) return [];
+  const manifest = await response.json();
+  return Array.isArray(manifest.rasters) ? manifest.rasters : [];
+}
+
+async function loadRasterSource(entry: RasterManifestEntry): Promise<RasterSource> {
+  const format = entry.format ?? (/\.(asc|txt)$/i.test(entry.url) ? 'ascii' : 'geotiff');
+  return format === 'ascii' ? openAsciiGrid(entry.url) : openGeoTiff(await openByteSource(entry.url));
+}
+
+// Opened rasters are cached per URL, failures are not so the file is tried again next time
+function rasterSourceFor(entry: RasterManifestEntry): Promise<RasterSource> {
+  let source = rasterSources.get(entry.url);
+  if (!source) {
+    source = loadRasterSource(entry);
+    rasterSources.set(entry.url, source);
+    source.catch(() => rasterSources.delete(entry.url));
+  }
+  return source;
+}
+
+const containsPoint = (bounds: GridBounds, lat: number, lng: number): boolean => {
+  return lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east;
+};
+
+// Population grid from the first listed raster covering the center of the bounds, or null.
+// A raster that fails to open or read is skipped in favour of the next.
+async function fetchRasterPopulationData(
+  bounds: GridBounds,
+  resolution: number
+): Promise<PopulationGrid | null> {
+  manifestRequest = manifestRequest ?? fetchManifest().catch(error => {
+    console.error('Error reading population raster manifest:', error);
+    return [];
+  });
+  const entries = await manifestRequest;
+  const lat = (bounds.north + bounds.south) / 2;
+  const lng = (bounds.east + bounds.west) / 2;
+
+  for (const entry of entries) {
+    if (entry.bounds && !containsPoint(entry.bounds, lat, lng)) continue;
+    try {
+      const source = await rasterSourceFor(entry);
+      if (!containsPoint(source.extent, lat, lng)) continue;
+
+      const raster = await source.read(bounds);
+      return {
+        bounds,
+        resolution,
+        data: resampleRaster(raster, bounds, resolution, entry.units),
+        source: {
+          id: localRasterProvider.id,
+          name: entry.name,
+          basis: 'census',
+          confidence: entry.confidence ?? DEFAULT_RASTER_CONFIDENCE,
+        },
+      };
+    } catch (error) {
+      console.error(`Error reading population raster ${entry.name}:`, error);
+    }
+  }
+  return null;
+}
+
+export const localRasterProvider: PopulationProvider = {
+  id: 'local-raster',
+  name: 'Local population raster',
+  basis: 'census',
+  coverage: 'global',
+  confidence: DEFAULT_RASTER_CONFIDENCE,
+  fetchGrid: fetchRasterPopulationData,
+};
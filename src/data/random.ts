@@ -0,0 +1,46 @@
+// Seeded pseudo-random numbers so sampled results are reproducible
+
+export type RandomSource = () => number; // uniform in [0, 1)
+
+// Mulberry32 generator, small and fast with good statistical quality for simulation
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// 32-bit FNV-1a hash of a string, for seeds derived from inputs such as a location
+export const hashSeed = (text: string): number => {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Standard normal sample (Box-Muller)
+export const sampleNormal = (random: RandomSource): number => {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+// Multiplicative factor with median 1 and the given log standard deviation
+export const sampleLognormalFactor = (random: RandomSource, sigma: number): number => {
+  return Math.exp(sigma * sampleNormal(random));
+};
+
+// Value at a percentile (0-100) of an ascending sorted array, interpolating between samples
+export const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * p / 100;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
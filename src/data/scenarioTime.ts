@@ -0,0 +1,118 @@
+import type { PopulationGrid } from './populationDataSources';
+
+// Time of the attack scenario, drives where people are (home, work, school)
+export interface ScenarioTime {
+  date: string; // YYYY-MM-DD, informational unless the day type is derived from it
+  hour: number; // 0-23 local time
+  dayType: 'weekday' | 'weekend';
+}
+
+// Building occupancy classes the OSM building tags are sorted into
+export type OccupancyClass = 'residential' | 'commercial' | 'school' | 'hospital';
+
+export const DEFAULT_SCENARIO_TIME: ScenarioTime = {
+  date: '',
+  hour: 12,
+  dayType: 'weekday',
+};
+
+// Share of each class's nominal occupants present at each hour (index 0-23),
+// approximating ambient population profiles from commuting and time-use surveys
+const OCCUPANCY_PROFILES: Record<ScenarioTime['dayType'], Record<OccupancyClass, number[]>> = {
+  weekday: {
+    residential: [
+      0.95, 0.95, 0.95, 0.95, 0.95, 0.93, 0.85, 0.7, 0.5, 0.4, 0.38, 0.38,
+      0.4, 0.38, 0.38, 0.4, 0.5, 0.65, 0.8, 0.88, 0.92, 0.94, 0.95, 0.95,
+    ],
+    commercial: [
+      0.05, 0.05, 0.05, 0.05, 0.05, 0.08, 0.15, 0.4, 0.8, 0.95, 0.95, 0.95,
+      0.85, 0.95, 0.95, 0.9, 0.75, 0.5, 0.3, 0.2, 0.15, 0.1, 0.07, 0.05,
+    ],
+    school: [
+      0.01, 0.01, 0.01, 0.01, 0.01, 0.01, 0.02, 0.3, 0.95, 0.95, 0.95, 0.95,
+      0.95, 0.95, 0.9, 0.5, 0.2, 0.1, 0.05, 0.05, 0.02, 0.01, 0.01, 0.01,
+    ],
+    hospital: [
+      0.8, 0.8, 0.8, 0.8, 0.8, 0.8, 0.85, 0.9, 0.95, 1, 1, 1,
+      1, 1, 1, 1, 0.95, 0.9, 0.9, 0.85, 0.85, 0.8, 0.8, 0.8,
+    ],
+  },
+  weekend: {
+    residential: [
+      0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.95, 0.93, 0.85, 0.75, 0.65, 0.6,
+      0.6, 0.6, 0.6, 0.62, 0.68, 0.75, 0.82, 0.88, 0.92, 0.94, 0.95, 0.95,
+    ],
+    commercial: [
+      0.05, 0.05, 0.05, 0.05, 0.05, 0.05, 0.07, 0.1, 0.2, 0.3, 0.4, 0.45,
+      0.45, 0.45, 0.45, 0.4, 0.35, 0.3, 0.25, 0.2, 0.15, 0.1, 0.07, 0.05,
+    ],
+    school: Array(24).fill(0.01),
+    hospital: [
+      0.8, 0.8, 0.8, 0.8, 0.8, 0.8, 0.8, 0.85, 0.9, 0.9, 0.9, 0.9,
+      0.9, 0.9, 0.9, 0.9, 0.9, 0.85, 0.85, 0.85, 0.8, 0.8, 0.8, 0.8,
+    ],
+  },
+};
+
+// Occupancy class for an OSM building tag
+export const occupancyClassForBuilding = (buildingType: string): OccupancyClass => {
+  if (['commercial', 'office', 'retail', 'industrial', 'warehouse', 'supermarket'].includes(buildingType)) {
+    return 'commercial';
+  }
+  if (buildingType === 'school' || buildingType === 'university' || buildingType === 'college') return 'school';
+  if (buildingType === 'hospital') return 'hospital';
+  return 'residential';
+};
+
+// Weekday or weekend for a YYYY-MM-DD date, or null if the date is invalid
+export const dayTypeForDate = (date: string): ScenarioTime['dayType'] | null => {
+  const parsed = new Date(`${date}T12:00:00`);
+  if (isNaN(parsed.getTime())) return null;
+  const day = parsed.getDay();
+  return day === 0 || day === 6 ? 'weekend' : 'weekday';
+};
+
+// Occupancy multiplier for a class at the scenario time
+export const occupancyFactor = (occupancyClass: OccupancyClass, time: ScenarioTime): number => {
+  const hour = Math.min(23, Math.max(0, Math.floor(time.hour)));
+  return OCCUPANCY_PROFILES[time.dayType][occupancyClass][hour];
+};
+
+// Ambient population grid for the scenario time, redistributing people between homes,
+// workplaces, schools and hospitals. Grids without building classes are returned unchanged.
+export const applyScenarioTime = (grid: PopulationGrid, time: ScenarioTime): PopulationGrid => {
+  const { occupancy } = grid;
+  if (!occupancy) return grid;
+
+  const classes = Object.keys(occupancy) as OccupancyClass[];
+  const factors = classes.map(c => occupancyFactor(c, time));
+  const data = grid.data.map((row, r) => row.map((_, c) =>
+    classes.reduce((sum, occupancyClass, i) => sum + occupancy[occupancyClass][r][c] * factors[i], 0)
+  ));
+  return { ...grid, data };
+};
+
+// Plain-language summary, e.g. "Weekday 14:00"
+export const describeScenarioTime = (time: ScenarioTime): string => {
+  const day = time.dayType === 'weekday' ? 'Weekday' : 'Weekend';
+  const hour = `${String(Math.floor(time.hour)).padStart(2, '0')}:00`;
+  return time.date ? `${day} ${hour} (${time.date})` : `${day} ${hour}`;
+};
+
+// URL round-trip for the blast page
+export const scenarioTimeToParams = (time: ScenarioTime): Record<string, string> => ({
+  ...(time.date ? { date: time.date } : {}),
+  hour: time.hour.toString(),
+  day: time.dayType,
+});
+
+export const parseScenarioTimeParams = (params: { get: (key: string) => string | null }): ScenarioTime => {
+  const hour = parseInt(params.get('hour') || '', 10);
+  const day = params.get('day');
+  const date = params.get('date') || '';
+  return {
+    date,
+    hour: isNaN(hour) ? DEFAULT_SCENARIO_TIME.hour : Math.min(23, Math.max(0, hour)),
+    dayType: day === 'weekday' || day === 'weekend' ? day : dayTypeForDate(date) ?? DEFAULT_SCENARIO_TIME.dayType,
+  };
+};
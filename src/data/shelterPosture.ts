@@ -0,0 +1,107 @@
+// Where people are when the weapon detonates, and how much warning they had
+
+export type ShelterPosture = 'outdoors' | 'light-structure' | 'basement' | 'shelter';
+
+// Protection factors divide the local exposure for each mechanism
+export interface ProtectionFactors {
+  blast: number;
+  thermal: number;
+  radiation: number;
+}
+
+export interface ShelterScenario {
+  warningMinutes: number; // 0 for a surprise attack
+  fractions: Record<ShelterPosture, number>; // where people go when warned, sums to 1
+}
+
+export const SHELTER_POSTURES: Record<ShelterPosture, { label: string; protection: ProtectionFactors }> = {
+  'outdoors': {
+    label: 'Outdoors',
+    protection: { blast: 1, thermal: 1, radiation: 1 },
+  },
+  'light-structure': {
+    label: 'Houses and offices',
+    // Blast curves are calibrated for people in ordinary buildings; walls block most of the flash
+    protection: { blast: 1, thermal: 10, radiation: 1.5 },
+  },
+  'basement': {
+    label: 'Basements',
+    protection: { blast: 2, thermal: 1000, radiation: 10 },
+  },
+  'shelter': {
+    label: 'Purpose-built shelters',
+    protection: { blast: 5, thermal: 1000, radiation: 100 },
+  },
+};
+
+export const SHELTER_POSTURE_ORDER = Object.keys(SHELTER_POSTURES) as ShelterPosture[];
+
+// Where people are with no warning at all, a typical daytime mix
+export const SURPRISE_ATTACK_FRACTIONS: Record<ShelterPosture, number> = {
+  'outdoors': 0.25,
+  'light-structure': 0.7,
+  'basement': 0.05,
+  'shelter': 0,
+};
+
+export const DEFAULT_SHELTER_SCENARIO: ShelterScenario = {
+  warningMinutes: 0,
+  fractions: SURPRISE_ATTACK_FRACTIONS,
+};
+
+// Time for half the population to act on a warning
+const RESPONSE_HALF_TIME_MINUTES = 10;
+
+// Scale fractions so they sum to 1, falling back to the surprise attack mix
+export const normalizeFractions = (fractions: Record<ShelterPosture, number>): Record<ShelterPosture, number> => {
+  const total = SHELTER_POSTURE_ORDER.reduce((sum, posture) => sum + Math.max(0, fractions[posture] || 0), 0);
+  if (total <= 0) return SURPRISE_ATTACK_FRACTIONS;
+  const normalized = {} as Record<ShelterPosture, number>;
+  SHELTER_POSTURE_ORDER.forEach(posture => {
+    normalized[posture] = Math.max(0, fractions[posture] || 0) / total;
+  });
+  return normalized;
+};
+
+// Population share in each posture at detonation
+// People who respond in time reach their planned posture; the rest are caught where they were
+export const effectivePostureFractions = (scenario: ShelterScenario): Record<ShelterPosture, number> => {
+  const planned = normalizeFractions(scenario.fractions);
+  const responded = 1 - Math.pow(0.5, Math.max(0, scenario.warningMinutes) / RESPONSE_HALF_TIME_MINUTES);
+  const effective = {} as Record<ShelterPosture, number>;
+  SHELTER_POSTURE_ORDER.forEach(posture => {
+    effective[posture] = SURPRISE_ATTACK_FRACTIONS[posture] * (1 - responded) + planned[posture] * responded;
+  });
+  return effective;
+};
+
+// Plain-language summary used in the blast page sidebar
+export const describeShelterScenario = (scenario: ShelterScenario): string => {
+  const fractions = effectivePostureFractions(scenario);
+  const warning = scenario.warningMinutes > 0 ? `${scenario.warningMinutes} min warning` : 'No warning';
+  const mix = SHELTER_POSTURE_ORDER
+    .filter(posture => fractions[posture] > 0.005)
+    .map(posture => `${(fractions[posture] * 100).toFixed(0)}% ${SHELTER_POSTURES[posture].label.toLowerCase()}`)
+    .join(', ');
+  return `${warning}: ${mix}`;
+};
+
+// URL round-trip for the blast page, fractions as comma-separated percentages
+export const shelterScenarioToParams = (scenario: ShelterScenario): Record<string, string> => ({
+  warn: scenario.warningMinutes.toString(),
+  posture: SHELTER_POSTURE_ORDER.map(posture => Math.round(scenario.fractions[posture] * 100)).join(','),
+});
+
+export const parseShelterParams = (params: { get: (key: string) => string | null }): ShelterScenario => {
+  const warningMinutes = parseFloat(params.get('warn') || '');
+  const percentages = (params.get('posture') || '').split(',').map(value => parseFloat(value));
+  const fractions = percentages.length === SHELTER_POSTURE_ORDER.length && percentages.every(p => !isNaN(p))
+    ? normalizeFractions(Object.fromEntries(
+      SHELTER_POSTURE_ORDER.map((posture, i) => [posture, percentages[i] / 100])
+    ) as Record<ShelterPosture, number>)
+    : DEFAULT_SHELTER_SCENARIO.fractions;
+  return {
+    warningMinutes: isNaN(warningMinutes) ? 0 : Math.max(0, warningMinutes),
+    fractions,
+  };
+};
@@ -0,0 +1,125 @@
+import { NuclearWeapon } from './nuclearWeapons';
+
+// Atmospheric and surface conditions affecting thermal radiation
+export interface WeatherConditions {
+  visibilityKm: number; // Horizontal visibility
+  cloudLayer: 'none' | 'above' | 'below'; // Cloud layer position relative to the burst
+  snowCover: boolean; // Snow on the ground reflects thermal radiation back toward targets
+  relativeHumidity: number; // 0-100 %
+}
+
+// Reference conditions the thermal radii are calibrated for ("clear" in Glasstone & Dolan Table 7.14)
+export const DEFAULT_WEATHER: WeatherConditions = {
+  visibilityKm: 20,
+  cloudLayer: 'none',
+  snowCover: false,
+  relativeHumidity: 50,
+};
+
+// Visibility presets following the International Visibility Code
+export const VISIBILITY_PRESETS = [
+  { label: 'Exceptionally clear', visibilityKm: 80 },
+  { label: 'Very clear', visibilityKm: 50 },
+  { label: 'Clear', visibilityKm: 20 },
+  { label: 'Light haze', visibilityKm: 10 },
+  { label: 'Haze', visibilityKm: 4 },
+  { label: 'Light fog', visibilityKm: 1 },
+];
+
+// Thermal transmittance model:
+// - Attenuation follows Koschmieder's relation, extinction coefficient = 3.912 / visibility
+// - Scattered radiation still reaches the target, approximated by a buildup factor (1 + 0.5 * extinction * range)
+// - Fluence falls off with the inverse square of range, so Q(r) ~ T(r) / r²
+// - Clouds above the burst reflect energy downward (x1.5); clouds between burst and ground absorb most of it (x0.3)
+// - Snow cover reflects energy back toward exposed surfaces (x1.3)
+// - Water vapor absorbs up to 15% of the infrared component in saturated air
+const transmittance = (rangeKm: number, visibilityKm: number): number => {
+  const extinction = 3.912 / Math.max(0.1, visibilityKm);
+  return Math.exp(-extinction * rangeKm) * (1 + 0.5 * extinction * rangeKm);
+};
+
+const CLOUD_FACTORS: Record<WeatherConditions['cloudLayer'], number> = {
+  none: 1.0,
+  above: 1.5,
+  below: 0.3,
+};
+
+const SNOW_FACTOR = 1.3;
+
+// Fluence multiplier from clouds, snow and humidity relative to the reference conditions
+const conditionFactor = (weather: WeatherConditions): number => {
+  const humidityAbsorption = (rh: number) => 1 - 0.15 * Math.min(100, Math.max(0, rh)) / 100;
+  return CLOUD_FACTORS[weather.cloudLayer]
+    * (weather.snowCover ? SNOW_FACTOR : 1)
+    * humidityAbsorption(weather.relativeHumidity) / humidityAbsorption(DEFAULT_WEATHER.relativeHumidity);
+};
+
+// Range (km) at which the same fluence is received under the given conditions as at referenceRangeKm
+export const scaleThermalRadius = (referenceRangeKm: number, weather: WeatherConditions): number => {
+  if (referenceRangeKm <= 0) return 0;
+  const fluence = (rangeKm: number, visibilityKm: number) =>
+    transmittance(rangeKm, visibilityKm) / (rangeKm * rangeKm);
+
+  const target = fluence(referenceRangeKm, DEFAULT_WEATHER.visibilityKm);
+  const factor = conditionFactor(weather);
+
+  // Fluence decreases monotonically with range, so bisect for the matching range
+  let low = 0;
+  let high = referenceRangeKm * 10;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (factor * fluence(mid, weather.visibilityKm) > target) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+// Thermal radii adjusted for weather, other effects are unchanged
+export const applyWeatherToBlastEffects = (
+  blastEffects: NuclearWeapon['blastEffects'],
+  weather: WeatherConditions
+): NuclearWeapon['blastEffects'] => {
+  return {
+    ...blastEffects,
+    thermal: {
+      thirdDegree: scaleThermalRadius(blastEffects.thermal.thirdDegree, weather),
+      secondDegree: scaleThermalRadius(blastEffects.thermal.secondDegree, weather),
+      firstDegree: scaleThermalRadius(blastEffects.thermal.firstDegree, weather),
+    },
+  };
+};
+
+// Plain-language summary used in the model assumptions panel
+export const describeWeatherConditions = (weather: WeatherConditions): string => {
+  const preset = VISIBILITY_PRESETS.find(p => weather.visibilityKm >= p.visibilityKm)
+    || VISIBILITY_PRESETS[VISIBILITY_PRESETS.length - 1];
+  const parts = [`${preset.label} atmospheric conditions (${weather.visibilityKm} km visibility)`];
+  if (weather.cloudLayer === 'above') parts.push('cloud layer above the burst');
+  if (weather.cloudLayer === 'below') parts.push('cloud layer between the burst and the ground');
+  if (weather.snowCover) parts.push('snow-covered ground');
+  parts.push(`${weather.relativeHumidity}% relative humidity`);
+  return parts.join(', ');
+};
+
+// URL round-trip for the blast page
+export const weatherToParams = (weather: WeatherConditions): Record<string, string> => ({
+  vis: weather.visibilityKm.toString(),
+  cloud: weather.cloudLayer,
+  snow: weather.snowCover ? '1' : '0',
+  rh: weather.relativeHumidity.toString(),
+});
+
+export const parseWeatherParams = (params: { get: (key: string) => string | null }): WeatherConditions => {
+  const visibilityKm = parseFloat(params.get('vis') || '');
+  const relativeHumidity = parseFloat(params.get('rh') || '');
+  const cloud = params.get('cloud');
+  return {
+    visibilityKm: isNaN(visibilityKm) || visibilityKm <= 0 ? DEFAULT_WEATHER.visibilityKm : visibilityKm,
+    cloudLayer: cloud === 'above' || cloud === 'below' ? cloud : 'none',
+    snowCover: params.get('snow') === '1',
+    relativeHumidity: isNaN(relativeHumidity) ? DEFAULT_WEATHER.relativeHumidity : Math.min(100, Math.max(0, relativeHumidity)),
+  };
+};
@@ -0,0 +1,36 @@
+import type { NuclearWeapon } from '@/data/nuclearWeapons';
+import type { PopulationData } from '@/data/populationCalculations';
+import type { PopulationGrid } from '@/data/populationDataSources';
+
+// Shared inputs for the unit tests
+
+export const testCenter = { lat: 40, lng: -74 };
+
+// Thermal, prompt radiation and 1 psi all reach exactly 3 km
+export const tiedBlastEffects: NuclearWeapon['blastEffects'] = {
+  fireball: 200,
+  overpressure: { psi20: 0.5, psi5: 1.2, psi2: 2, psi1: 3 },
+  thermal: { thirdDegree: 1.5, secondDegree: 2.2, firstDegree: 3 },
+  radiation: { rem500: 1.4, rem100: 3 },
+};
+
+// Density-only population data, as used when there is no grid
+export const uniformDensity = (density: number): PopulationData => ({
+  totalPopulation: 0,
+  populationDensity: density,
+  urbanDensityFactor: 1,
+});
+
+// Uniform grid of density people per km² over 40 km around center, with cells of about
+// cellMeters a side
+export const uniformGrid = (center: { lat: number; lng: number }, density: number, cellMeters: number): PopulationGrid => {
+  const size = Math.round(40000 / cellMeters);
+  const cellKm = 40 / size;
+  const halfLat = 20 / 111;
+  const halfLng = 20 / (111 * Math.cos(center.lat * Math.PI / 180));
+  return {
+    bounds: { north: center.lat + halfLat, south: center.lat - halfLat, east: center.lng + halfLng, west: center.lng - halfLng },
+    resolution: cellKm * 1000,
+    data: Array.from({ length: size }, () => Array(size).fill(density * cellKm * cellKm)),
+  };
+};
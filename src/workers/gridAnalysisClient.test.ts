@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { GridAnalysisRequest, GridAnalysisResponse } from './gridAnalysisClient';
+import type { PopulationGrid } from '@/data/populationDataSources';
+import { testCenter as center, tiedBlastEffects as blastEffects } from '@/test/fixtures';
+
+const grid = (people: number): PopulationGrid => ({
+  bounds: { north: 40.1, south: 39.9, east: -73.9, west: -74.1 },
+  resolution: 1000,
+  data: Array.from({ length: 3 }, () => Array(3).fill(people)),
+});
+
+// Records the requests the page posts and answers each with an empty result
+class RecordingWorker {
+  static requests: GridAnalysisRequest[] = [];
+  private listeners: Array<(event: { data: GridAnalysisResponse }) => void> = [];
+
+  addEventListener(type: string, listener: (event: { data: GridAnalysisResponse }) => void) {
+    if (type === 'message') this.listeners.push(listener);
+  }
+
+  postMessage(request: GridAnalysisRequest) {
+    RecordingWorker.requests.push(request);
+    queueMicrotask(() => this.listeners.forEach(listener => listener({ data: { id: request.id, result: null } })));
+  }
+
+  terminate() {}
+}
+
+describe('grid analysis client', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends each grid to the worker only when it changes', async () => {
+    vi.resetModules();
+    RecordingWorker.requests = [];
+    vi.stubGlobal('Worker', RecordingWorker);
+    const { calculateBuildingLossInWorker } = await import('./gridAnalysisClient');
+    const first = grid(100);
+    const second = grid(200);
+
+    for (const populationGrid of [first, first, second, second, first]) {
+      await calculateBuildingLossInWorker(blastEffects, populationGrid, center);
+    }
+
+    const sent = RecordingWorker.requests.map(request => request.grid ? Array.from(request.grid.data) : null);
+    expect(sent).toEqual([Array(9).fill(100), null, Array(9).fill(200), null, Array(9).fill(100)]);
+    // A grid keeps its number when it is sent again
+    expect(RecordingWorker.requests[4].gridId).toBe(RecordingWorker.requests[0].gridId);
+  });
+
+  it('runs on the main thread without workers', async () => {
+    vi.resetModules();
+    const { calculateBuildingLossInWorker } = await import('./gridAnalysisClient');
+    const loss = await calculateBuildingLossInWorker(blastEffects, grid(100), center);
+    expect(loss?.loss).toBeGreaterThan(0);
+  });
+});
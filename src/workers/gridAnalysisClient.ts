@@ -0,0 +1,253 @@
+import { NuclearWeapon } from '@/data/nuclearWeapons';
+import {
+  calculateCasualties,
+  CasualtyData,
+  CasualtyScenario,
+  PopulationData,
+  SurvivorProfilePoint,
+} from '@/data/populationCalculations';
+import { calculateBuildingDamage, BuildingDamage, ConstructionType, CONSTRUCTION_TYPE_ORDER } from '@/data/buildingDamage';
+import { calculateBuildingLoss, BuildingLoss } from '@/data/economicLoss';
+import { calculateLongTermHealth, LongTermHealth, RiskCoefficients } from '@/data/longTermHealth';
+import { calculateFireEffects, FireEffects } from '@/data/fireModel';
+import type { FalloutParameters } from '@/data/falloutModel';
+import type { PopulationGrid } from '@/data/populationDataSources';
+
+// Analyses that scan the whole population grid, computed off the main thread so dragging
+// ground zero stays smooth over large grids
+
+// Population grid with each layer in one row-major buffer, cheap to copy to the worker
+export interface FlatPopulationGrid {
+  bounds: PopulationGrid['bounds'];
+  resolution: number;
+  rows: number;
+  cols: number;
+  data: Float64Array;
+  floorArea?: Float64Array;
+  buildings?: Record<ConstructionType, Float64Array>;
+  source?: PopulationGrid['source'];
+  seed?: number;
+}
+
+export type GridAnalysisTask =
+  | {
+    kind: 'casualties';
+    blastEffects: NuclearWeapon['blastEffects'];
+    populationData: Omit<PopulationData, 'populationGrid'>;
+    center: { lat: number; lng: number };
+    scenario: CasualtyScenario;
+  }
+  | {
+    kind: 'fireEffects';
+    yieldKt: number;
+    blastEffects: NuclearWeapon['blastEffects'];
+    center: { lat: number; lng: number };
+  }
+  | { kind: 'buildingDamage'; blastEffects: NuclearWeapon['blastEffects']; center: { lat: number; lng: number } }
+  | { kind: 'buildingLoss'; blastEffects: NuclearWeapon['blastEffects']; center: { lat: number; lng: number } }
+  | {
+    kind: 'longTermHealth';
+    survivors: SurvivorProfilePoint[];
+    populationData: Omit<PopulationData, 'populationGrid'>;
+    center: { lat: number; lng: number };
+    falloutParams: FalloutParameters | null;
+    coefficients: RiskCoefficients;
+  };
+
+export interface GridAnalysisResults {
+  casualties: CasualtyData;
+  fireEffects: FireEffects;
+  buildingDamage: BuildingDamage | null;
+  buildingLoss: BuildingLoss | null;
+  longTermHealth: LongTermHealth;
+}
+
+// The worker keeps the last grid it was sent, so a grid is only sent when it changes
+export interface GridAnalysisRequest {
+  id: number;
+  gridId: number | null;
+  grid?: FlatPopulationGrid;
+  task: GridAnalysisTask;
+}
+
+export type GridAnalysisResponse =
+  | { id: number; result: GridAnalysisResults[GridAnalysisTask['kind']] }
+  | { id: number; error: string };
+
+const flattenLayer = (layer: number[][], rows: number, cols: number): Float64Array => {
+  const flat = new Float64Array(rows * cols);
+  layer.forEach((row, r) => flat.set(row, r * cols));
+  return flat;
+};
+
+const flattenGrid = (grid: PopulationGrid): FlatPopulationGrid => {
+  const rows = grid.data.length;
+  const cols = grid.data[0]?.length || 0;
+  const { buildings, floorArea } = grid;
+  return {
+    bounds: grid.bounds,
+    resolution: grid.resolution,
+    rows,
+    cols,
+    data: flattenLayer(grid.data, rows, cols),
+    ...(floorArea ? { floorArea: flattenLayer(floorArea, rows, cols) } : {}),
+    ...(buildings ? {
+      buildings: Object.fromEntries(CONSTRUCTION_TYPE_ORDER.map(type => [type, flattenLayer(buildings[type], rows, cols)])) as Record<ConstructionType, Float64Array>,
+    } : {}),
+    source: grid.source,
+    seed: grid.seed,
+  };
+};
+
+// Each fetched grid is flattened once and numbered for the worker's grid cache
+let nextGridId = 0;
+const flatGrids = new WeakMap<PopulationGrid, { id: number; grid: FlatPopulationGrid }>();
+const flatGridFor = (grid: PopulationGrid) => {
+  let flat = flatGrids.get(grid);
+  if (!flat) {
+    flat = { id: nextGridId++, grid: flattenGrid(grid) };
+    flatGrids.set(grid, flat);
+  }
+  return flat;
+};
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let workerGridId: number | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, {
+  resolve: (result: GridAnalysisResults[GridAnalysisTask['kind']]) => void;
+  reject: (error: Error) => void;
+}>();
+
+// Started on first use, null where workers are unavailable (server rendering, old browsers)
+const getWorker = (): Worker | null => {
+  if (worker || workerFailed) return worker;
+  if (typeof Worker === 'undefined') {
+    workerFailed = true;
+    return null;
+  }
+  try {
+    worker = new Worker(new URL('./gridAnalysisWorker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.error('Error starting grid analysis worker:', error);
+    workerFailed = true;
+    return null;
+  }
+
+  worker.addEventListener('message', (event: MessageEvent<GridAnalysisResponse>) => {
+    const pending = pendingRequests.get(event.data.id);
+    if (!pending) return;
+    pendingRequests.delete(event.data.id);
+    if ('error' in event.data) pending.reject(new Error(event.data.error));
+    else pending.resolve(event.data.result);
+  });
+
+  // A worker that fails to load fails every request, so later requests run on the main thread
+  worker.addEventListener('error', event => {
+    console.error('Grid analysis worker error:', event.message);
+    worker?.terminate();
+    worker = null;
+    workerFailed = true;
+    pendingRequests.forEach(pending => pending.reject(new Error('Grid analysis worker failed')));
+    pendingRequests.clear();
+  });
+  return worker;
+};
+
+// Run a task in the worker, falling back to the main thread if the worker is unavailable or fails
+async function runGridAnalysis<K extends GridAnalysisTask['kind']>(
+  task: Extract<GridAnalysisTask, { kind: K }>,
+  populationGrid: PopulationGrid | null | undefined,
+  runHere: () => GridAnalysisResults[K]
+): Promise<GridAnalysisResults[K]> {
+  const analysisWorker = getWorker();
+  if (!analysisWorker) return runHere();
+
+  const flat = populationGrid ? flatGridFor(populationGrid) : null;
+  const id = nextRequestId++;
+  const request: GridAnalysisRequest = { id, gridId: flat?.id ?? null, task };
+  if (flat && flat.id !== workerGridId) {
+    request.grid = flat.grid;
+    workerGridId = flat.id;
+  }
+
+  try {
+    return await new Promise<GridAnalysisResults[K]>((resolve, reject) => {
+      pendingRequests.set(id, { resolve: resolve as (result: GridAnalysisResults[GridAnalysisTask['kind']]) => void, reject });
+      analysisWorker.postMessage(request);
+    });
+  } catch (error) {
+    console.error('Error running grid analysis in worker:', error);
+    return runHere();
+  }
+}
+
+export function calculateCasualtiesInWorker(
+  blastEffects: NuclearWeapon['blastEffects'],
+  populationData: PopulationData,
+  center: { lat: number; lng: number },
+  scenario: CasualtyScenario = {}
+): Promise<CasualtyData> {
+  const { populationGrid, ...summary } = populationData;
+  return runGridAnalysis(
+    { kind: 'casualties', blastEffects, populationData: summary, center, scenario },
+    populationGrid,
+    () => calculateCasualties(blastEffects, populationData, center, scenario)
+  );
+}
+
+export function calculateFireEffectsInWorker(
+  yieldKt: number,
+  blastEffects: NuclearWeapon['blastEffects'],
+  center: { lat: number; lng: number },
+  populationGrid: PopulationGrid | null | undefined
+): Promise<FireEffects> {
+  return runGridAnalysis(
+    { kind: 'fireEffects', yieldKt, blastEffects, center },
+    populationGrid,
+    () => calculateFireEffects(yieldKt, blastEffects, center, populationGrid)
+  );
+}
+
+export function calculateBuildingDamageInWorker(
+  blastEffects: NuclearWeapon['blastEffects'],
+  populationGrid: PopulationGrid | null | undefined,
+  center: { lat: number; lng: number }
+): Promise<BuildingDamage | null> {
+  // Only building grids have anything to damage, so skip the round trip for the rest
+  if (!populationGrid?.buildings) return Promise.resolve(null);
+  return runGridAnalysis(
+    { kind: 'buildingDamage', blastEffects, center },
+    populationGrid,
+    () => calculateBuildingDamage(blastEffects, populationGrid, center)
+  );
+}
+
+export function calculateBuildingLossInWorker(
+  blastEffects: NuclearWeapon['blastEffects'],
+  populationGrid: PopulationGrid | null | undefined,
+  center: { lat: number; lng: number }
+): Promise<BuildingLoss | null> {
+  if (!populationGrid) return Promise.resolve(null);
+  return runGridAnalysis(
+    { kind: 'buildingLoss', blastEffects, center },
+    populationGrid,
+    () => calculateBuildingLoss(blastEffects, populationGrid, center)
+  );
+}
+
+export function calculateLongTermHealthInWorker(
+  survivors: SurvivorProfilePoint[],
+  populationData: PopulationData,
+  center: { lat: number; lng: number },
+  falloutParams: FalloutParameters | null,
+  coefficients: RiskCoefficients
+): Promise<LongTermHealth> {
+  const { populationGrid, ...summary } = populationData;
+  return runGridAnalysis(
+    { kind: 'longTermHealth', survivors, populationData: summary, center, falloutParams, coefficients },
+    populationGrid,
+    () => calculateLongTermHealth(survivors, populationData, center, falloutParams, coefficients)
+  );
+}
@@ -0,0 +1,78 @@
+import { calculateCasualties } from '@/data/populationCalculations';
+import { calculateBuildingDamage, ConstructionType, CONSTRUCTION_TYPE_ORDER } from '@/data/buildingDamage';
+import { calculateBuildingLoss } from '@/data/economicLoss';
+import { calculateLongTermHealth } from '@/data/longTermHealth';
+import { calculateFireEffects } from '@/data/fireModel';
+import type { PopulationGrid } from '@/data/populationDataSources';
+import type {
+  FlatPopulationGrid,
+  GridAnalysisRequest,
+  GridAnalysisResponse,
+  GridAnalysisTask,
+} from './gridAnalysisClient';
+
+// Runs the grid analyses for the page, one request at a time in arrival order
+
+const unflattenLayer = (layer: Float64Array, rows: number, cols: number): number[][] =>
+  Array.from({ length: rows }, (_, r) => Array.from(layer.subarray(r * cols, (r + 1) * cols)));
+
+const unflattenGrid = (grid: FlatPopulationGrid): PopulationGrid => {
+  const { rows, cols, floorArea, buildings } = grid;
+  return {
+    bounds: grid.bounds,
+    resolution: grid.resolution,
+    data: unflattenLayer(grid.data, rows, cols),
+    ...(floorArea ? { floorArea: unflattenLayer(floorArea, rows, cols) } : {}),
+    ...(buildings ? {
+      buildings: Object.fromEntries(CONSTRUCTION_TYPE_ORDER.map(type => [type, unflattenLayer(buildings[type], rows, cols)])) as Record<ConstructionType, number[][]>,
+    } : {}),
+    ...(grid.source ? { source: grid.source } : {}),
+    ...(grid.seed !== undefined ? { seed: grid.seed } : {}),
+  };
+};
+
+// Last grid sent by the page, requests without a grid use it
+let currentGrid: { id: number; grid: PopulationGrid } | null = null;
+
+const runTask = (task: GridAnalysisTask, grid: PopulationGrid | null) => {
+  switch (task.kind) {
+    case 'casualties':
+      return calculateCasualties(
+        task.blastEffects,
+        grid ? { ...task.populationData, populationGrid: grid } : task.populationData,
+        task.center,
+        task.scenario
+      );
+    case 'fireEffects':
+      return calculateFireEffects(task.yieldKt, task.blastEffects, task.center, grid);
+    case 'buildingDamage':
+      return calculateBuildingDamage(task.blastEffects, grid, task.center);
+    case 'buildingLoss':
+      return calculateBuildingLoss(task.blastEffects, grid, task.center);
+    case 'longTermHealth':
+      return calculateLongTermHealth(
+        task.survivors,
+        grid ? { ...task.populationData, populationGrid: grid } : task.populationData,
+        task.center,
+        task.falloutParams,
+        task.coefficients
+      );
+  }
+};
+
+addEventListener('message', (event: MessageEvent<GridAnalysisRequest>) => {
+  const { id, gridId, grid, task } = event.data;
+  let response: GridAnalysisResponse;
+  try {
+    if (grid && gridId !== null) {
+      currentGrid = { id: gridId, grid: unflattenGrid(grid) };
+    }
+    if (gridId !== null && currentGrid?.id !== gridId) {
+      throw new Error(`Population grid ${gridId} was not sent to the worker`);
+    }
+    response = { id, result: runTask(task, gridId === null ? null : currentGrid!.grid) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  postMessage(response);
+});